@@ -1,17 +1,27 @@
-import { createGlobalThemeContract, createTheme } from '@vanilla-extract/css'
+import {
+  createGlobalThemeContract,
+  createTheme,
+  StyleRule,
+} from '@vanilla-extract/css'
 import { recipe } from '@vanilla-extract/recipes'
 
 const vars = createGlobalThemeContract(
   {
     backgroundColor: null,
     dimBackgroundColor: null,
+    dimOpacity: null,
     navbar: {
       iconColor: null,
+      iconSize: null,
       borderColor: null,
       borderSize: null,
       height: null,
+      padding: null,
       center: {
         textColor: null,
+        fontFamily: null,
+        fontSize: null,
+        fontWeight: null,
         mainWidth: null,
       },
     },
@@ -23,13 +33,19 @@ const vars = createGlobalThemeContract(
 const Android = createTheme(vars, {
   backgroundColor: '#fff',
   dimBackgroundColor: 'rgba(0, 0, 0, 0.15)',
+  dimOpacity: '1',
   navbar: {
     iconColor: '#212529',
+    iconSize: '1.5rem',
     borderColor: 'rgba(0, 0, 0, 0.07)',
     borderSize: '1px',
     height: '3.5rem',
+    padding: '0.5rem',
     center: {
       textColor: '#212529',
+      fontFamily: 'inherit',
+      fontSize: '1.1875rem',
+      fontWeight: 'bold',
       mainWidth: '',
     },
   },
@@ -39,19 +55,38 @@ const Android = createTheme(vars, {
 const Cupertino = createTheme(vars, {
   backgroundColor: '#fff',
   dimBackgroundColor: 'rgba(0, 0, 0, 0.15)',
+  dimOpacity: '1',
   navbar: {
     iconColor: '#212529',
+    iconSize: '1.5rem',
     borderColor: 'rgba(0, 0, 0, 0.12)',
     borderSize: '0.5px',
     height: '2.75rem',
+    padding: '0.5rem',
     center: {
       textColor: '#212529',
+      fontFamily: '-apple-system, BlinkMacSystemFont',
+      fontSize: '1rem',
+      fontWeight: '600',
       mainWidth: '',
     },
   },
   animationDuration: '',
 })
 
+/**
+ * Colors overridden in dark mode (metrics are kept from the theme)
+ */
+const dark: StyleRule = {
+  vars: {
+    [vars.backgroundColor]: '#1a1a1d',
+    [vars.dimBackgroundColor]: 'rgba(0, 0, 0, 0.4)',
+    [vars.navbar.iconColor]: '#f1f3f5',
+    [vars.navbar.borderColor]: 'rgba(255, 255, 255, 0.12)',
+    [vars.navbar.center.textColor]: '#f1f3f5',
+  },
+}
+
 export const root = recipe({
   base: {
     width: '100%',
@@ -65,6 +100,15 @@ export const root = recipe({
       Android,
       Cupertino,
     },
+    colorScheme: {
+      light: {},
+      dark,
+      auto: {
+        '@media': {
+          '(prefers-color-scheme: dark)': dark,
+        },
+      },
+    },
   },
 })
 
@@ -0,0 +1,146 @@
+import { act, render } from '@testing-library/react'
+import { createMemoryHistory } from 'history'
+import React from 'react'
+
+import Navigator from './Navigator'
+import Screen from './Screen'
+import { GlobalState, useStore } from './store'
+import { INavigator, useNavigator } from './useNavigator'
+
+type IProbe = { navigator: INavigator; getState: () => GlobalState }
+
+function renderTabs({
+  names = ['home'],
+  beforeEach,
+}: {
+  names?: string[]
+  beforeEach?: jest.Mock
+} = {}) {
+  const history = createMemoryHistory({ initialEntries: ['/tabs'] })
+  const probes: { [name: string]: IProbe } = {}
+
+  const Probe: React.FC<{ name: string }> = ({ name }) => {
+    probes[name] = { navigator: useNavigator(), getState: useStore().getState }
+    return null
+  }
+
+  const Tabs: React.FC = () => (
+    <>
+      {names.map((name, idx) => (
+        <Navigator key={idx} name={name}>
+          <Probe name={`tab${idx}`} />
+          <Screen path="/" component={() => null} />
+          <Screen path="/posts/:postId" component={() => null} />
+        </Navigator>
+      ))}
+    </>
+  )
+
+  render(
+    <Navigator
+      historyAdapter={{ createHistory: () => history, provideRouter: true }}
+      beforeEach={beforeEach}
+    >
+      <Probe name="outer" />
+      <Screen path="/tabs" component={Tabs} />
+      <Screen path="/settings" component={() => null} />
+    </Navigator>
+  )
+
+  const getStack = (name: string) => {
+    const { screenInstances, screenInstancePtr } = probes[name].getState()
+    return screenInstances
+      .filter((_, idx) => idx <= screenInstancePtr)
+      .map((screenInstance) => screenInstance.as)
+  }
+
+  return {
+    history,
+    navigator: (name: string) => probes[name].navigator,
+    getStack,
+  }
+}
+
+describe('nested navigators', () => {
+  test('keep their locations in the URL of the outer navigator', () => {
+    const { history, navigator, getStack } = renderTabs()
+
+    act(() => {
+      navigator('tab0').push('/posts/1')
+    })
+
+    expect(history.location.pathname).toBe('/tabs')
+    expect(
+      new URLSearchParams(history.location.search).get('_nested.home')
+    ).toMatch(/^\/posts\/1\?_si=/)
+    expect(getStack('tab0')).toEqual(['/', '/posts/1'])
+    expect(getStack('outer')).toEqual(['/tabs'])
+  })
+
+  test('pop on browser back before the outer navigator', () => {
+    const { history, navigator, getStack } = renderTabs()
+
+    act(() => {
+      navigator('outer').push('/settings')
+    })
+    act(() => {
+      history.goBack()
+    })
+    act(() => {
+      navigator('tab0').push('/posts/1')
+    })
+    act(() => {
+      history.goBack()
+    })
+
+    expect(getStack('tab0')).toEqual(['/'])
+    expect(getStack('outer')).toEqual(['/tabs'])
+    expect(history.location.pathname).toBe('/tabs')
+  })
+
+  test('ignore the screens pushed above the host screen', () => {
+    const { history, navigator, getStack } = renderTabs()
+
+    act(() => {
+      navigator('tab0').push('/posts/1')
+    })
+    act(() => {
+      navigator('outer').push('/settings')
+    })
+    expect(getStack('tab0')).toEqual(['/', '/posts/1'])
+
+    act(() => {
+      history.goBack()
+    })
+
+    expect(getStack('outer')).toEqual(['/tabs'])
+    expect(getStack('tab0')).toEqual(['/', '/posts/1'])
+  })
+
+  test('are guarded by beforeEach of the outer navigator', () => {
+    const beforeEach = jest.fn((to: string) => to !== '/posts/2')
+    const { navigator, getStack } = renderTabs({ beforeEach })
+
+    act(() => {
+      navigator('tab0').push('/posts/1')
+    })
+    act(() => {
+      navigator('tab0').push('/posts/2')
+    })
+
+    expect(beforeEach).toHaveBeenCalledWith('/posts/1', '/')
+    expect(getStack('tab0')).toEqual(['/', '/posts/1'])
+  })
+
+  test('warn when siblings share a name', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    renderTabs({ names: ['home', 'chat'] })
+    expect(warn).not.toHaveBeenCalled()
+
+    renderTabs({ names: ['home', 'home'] })
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"_nested.home"'))
+
+    warn.mockRestore()
+  })
+})
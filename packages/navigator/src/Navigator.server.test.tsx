@@ -0,0 +1,27 @@
+/**
+ * @jest-environment node
+ */
+import React from 'react'
+import { renderToString } from 'react-dom/server'
+
+import Navigator from './Navigator'
+import Screen from './Screen'
+
+describe('<Navigator /> on the server', () => {
+  test('renders auto theme as Android without calling the detector', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const themeDetector = jest.fn(() => 'Cupertino' as const)
+
+    const html = renderToString(
+      <Navigator theme="auto" themeDetector={themeDetector} location="/">
+        <Screen path="/" component={() => null} />
+      </Navigator>
+    )
+
+    expect(html).toContain('root_Android')
+    expect(themeDetector).not.toHaveBeenCalled()
+    expect(error).not.toHaveBeenCalled()
+
+    error.mockRestore()
+  })
+})
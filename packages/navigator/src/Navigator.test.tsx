@@ -0,0 +1,139 @@
+import { act } from '@testing-library/react'
+import React from 'react'
+
+import { flush, renderNavigator } from './_test/renderNavigator'
+import { builtInThemes } from './helpers'
+import ScreenHelmet from './ScreenHelmet'
+import { ITransitionEvent } from './types'
+
+const screens = { '/': () => null }
+
+const Titled: React.FC = () => <ScreenHelmet title="Title" />
+
+function getRootClassName(container: HTMLElement) {
+  return (container.firstChild as HTMLElement).className
+}
+
+describe('theme', () => {
+  test('auto follows the detector once mounted', () => {
+    const themeDetector = jest.fn(() => 'Cupertino' as const)
+    const { container } = renderNavigator({
+      screens,
+      theme: 'auto',
+      themeDetector,
+    })
+
+    expect(getRootClassName(container)).toContain('root_Cupertino')
+    expect(themeDetector).toHaveBeenCalledTimes(1)
+  })
+
+  test('does not call the detector for a named theme', () => {
+    const themeDetector = jest.fn(() => 'Cupertino' as const)
+    const { container } = renderNavigator({
+      screens,
+      theme: 'Android',
+      themeDetector,
+    })
+
+    expect(getRootClassName(container)).toContain('root_Android')
+    expect(themeDetector).not.toHaveBeenCalled()
+  })
+
+  test('lays out navbar with the values of the theme', () => {
+    const { container } = renderNavigator({
+      screens: { '/': Titled },
+      theme: 'Web',
+    })
+    const title = container.querySelector('[class^="Navbar_centerMain_"]')!
+
+    expect(getRootClassName(container)).toContain('root_Android')
+    expect(title.className).toContain('centerMain_left')
+  })
+
+  test('lays out navbar of a theme definition', () => {
+    const { container } = renderNavigator({
+      screens: { '/': Titled },
+      theme: { ...builtInThemes.Android, titleAlign: 'center' },
+    })
+    const title = container.querySelector('[class^="Navbar_centerMain_"]')!
+
+    expect(title.className).toContain('centerMain_center')
+  })
+})
+
+describe('transition events', () => {
+  const wait = (ms: number) =>
+    act(() => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+
+  const threadScreens = {
+    '/': () => null,
+    '/threads/:threadId': () => null,
+  }
+
+  function renderWithEvents() {
+    const onTransitionStart = jest.fn<void, [ITransitionEvent]>()
+    const onTransitionEnd = jest.fn<void, [ITransitionEvent]>()
+    const rendered = renderNavigator({
+      screens: threadScreens,
+      animationDuration: 50,
+      onTransitionStart,
+      onTransitionEnd,
+    })
+
+    const paths = (mock: jest.Mock<void, [ITransitionEvent]>) =>
+      mock.mock.calls.map(([e]) => [e.direction, e.from?.path, e.to?.path])
+
+    return {
+      ...rendered,
+      starts: () => paths(onTransitionStart),
+      ends: () => paths(onTransitionEnd),
+    }
+  }
+
+  test('tell the screens of push and pop', async () => {
+    const { navigator, starts, ends } = renderWithEvents()
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    expect(starts()).toEqual([['forward', '/', '/threads/1']])
+    expect(ends()).toEqual([])
+
+    await wait(100)
+    expect(ends()).toEqual([['forward', '/', '/threads/1']])
+
+    act(() => {
+      navigator().pop()
+    })
+    await wait(100)
+
+    expect(starts()[1]).toEqual(['backward', '/threads/1', '/'])
+    expect(ends()[1]).toEqual(['backward', '/threads/1', '/'])
+  })
+
+  test('end with the screens of the start when the stack changed', async () => {
+    const { navigator, ends } = renderWithEvents()
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    await wait(100)
+    act(() => {
+      navigator().push('/threads/2')
+    })
+    await wait(100)
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+    act(() => {
+      navigator().pop()
+    })
+    await wait(100)
+
+    expect(ends().slice(2)).toEqual([
+      ['backward', '/threads/2', '/threads/1'],
+      ['backward', '/threads/1', '/'],
+    ])
+  })
+})
@@ -1,41 +1,186 @@
-import React from 'react'
-import { HashRouter } from 'react-router-dom'
+import React, {
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import { Router, useHistory as useRouterHistory } from 'react-router-dom'
 import { TransitionGroup } from 'react-transition-group'
 
+import { createMemoryHistory, createPath } from 'history'
+
 import { assignInlineVars } from '@vanilla-extract/dynamic'
 
+import NavigatorScopes from './components/NavigatorScopes'
 import Stack from './components/Stack'
-import { UniqueIdProvider } from './hooks'
+import {
+  ContextHistory,
+  HistoryProvider,
+  NavigationGuardsProvider,
+  NavigatorParamsProvider,
+  NavigatorPathProvider,
+  useNavigationGuards,
+  useNavigatorParamsConfig,
+  useNavigatorPath,
+  useScreenInstance,
+} from './contexts'
+import {
+  builtInTransitions,
+  chainAfterEach,
+  chainBeforeEach,
+  claimNavigatorUrl,
+  createCustomRouterHistoryAdapter,
+  createHashHistoryAdapter,
+  createScopedHistory,
+  detectThemeFromUserAgent,
+  getDefaultStackStorage,
+  getNestedParam,
+  getStackSnapshotKey,
+  supportsHistoryState,
+  makeTokenVars,
+  resolveNavigatorParamsConfig,
+  resolveTheme,
+} from './helpers'
+import { UniqueIdProvider, useIsomorphicLayoutEffect } from './hooks'
 import * as css from './Navigator.css'
-import { StoreProvider } from './store'
-import { INavigatorTheme } from './types'
+import { StoreProvider, useStore } from './store'
+import {
+  IGesture,
+  IHistoryAdapter,
+  IInitialStackResolver,
+  INavigatorAfterEach,
+  INavigatorBeforeEach,
+  INavigatorBridge,
+  INavigatorColorScheme,
+  INavigatorParamsOptions,
+  INavigatorTheme,
+  INavigatorThemeDefinition,
+  INavigatorThemeDetector,
+  INavigatorTokens,
+  IScreenInstanceIdGenerator,
+  IStackStorage,
+  ITransition,
+  ITransitionEvent,
+} from './types'
 
-declare global {
-  interface Window {
-    __KARROTFRAME__?: boolean
-  }
-}
+interface INavigatorProps {
+  /**
+   * Name of navigator, which keeps its persisted stack apart
+   * from the other navigators (e.g. nested navigators of tabs)
+   */
+  name?: string
+
+  /**
+   * Theme name or definition (default: `Android`)
+   * (`auto` decides the theme from user agent)
+   */
+  theme?: INavigatorTheme | 'auto' | INavigatorThemeDefinition
 
-const DEFAULT_CUPERTINO_ANIMATION_DURATION = 350
-const DEFAULT_ANDROID_ANIMATION_DURATION = 270
+  /**
+   * Decide the theme when `theme="auto"` (default: from user agent)
+   */
+  themeDetector?: INavigatorThemeDetector
+
+  /**
+   * Color scheme (default: `light`)
+   * (`auto` follows `prefers-color-scheme` of the device)
+   */
+  colorScheme?: INavigatorColorScheme
 
-interface INavigatorProps {
   /**
-   * Theme (default: `Android`)
+   * Design tokens overriding the ones of theme and color scheme
    */
-  theme?: INavigatorTheme
+  tokens?: INavigatorTokens
 
   /**
-   * Transition animation duration
+   * Transition animation duration (default: `animationDuration` of theme)
    */
   animationDuration?: number
 
+  /**
+   * Custom transitions that can be used by name
+   * (`fade`, `none`, `slide-up` and `shared-axis` are built in)
+   */
+  transitions?: { [name: string]: ITransition }
+
+  /**
+   * Edge swipe back gesture options
+   * (default: enabled by `swipeBack` of theme)
+   */
+  gesture?: IGesture
+
+  /**
+   * History implementation that navigator runs on
+   * (default: `createHashHistoryAdapter()`, or the URL param `_nested.<name>`
+   * of the enclosing navigator when nested in another navigator)
+   */
+  historyAdapter?: IHistoryAdapter
+
   /**
    * Remove built-in `<HashRouter />`
    * and use your own custom `<Router />`
+   *
+   * @deprecated Use `historyAdapter={createCustomRouterHistoryAdapter()}`
    */
   useCustomRouter?: boolean
 
+  /**
+   * Persist screen stack and restore it after page reload
+   */
+  persistStack?: boolean
+
+  /**
+   * Storage used when `persistStack` is enabled (default: `sessionStorage`)
+   */
+  stackStorage?: IStackStorage
+
+  /**
+   * Issue screen instance ids (`_si` of URL)
+   * (default: time and random based id)
+   */
+  screenInstanceIdGenerator?: IScreenInstanceIdGenerator
+
+  /**
+   * Rename navigator params (`_si`, `_present`, ...)
+   * or keep them in `history.state` to hide them from URL
+   */
+  navigatorParams?: INavigatorParamsOptions
+
+  /**
+   * Build a back stack beneath the entry screen (e.g. opened by deep link)
+   */
+  initialStack?: IInitialStackResolver
+
+  /**
+   * Called before every navigation
+   * (return `false` to cancel, or a path to redirect)
+   */
+  beforeEach?: INavigatorBeforeEach
+
+  /**
+   * Called after every navigation
+   */
+  afterEach?: INavigatorAfterEach
+
+  /**
+   * Maximum number of screens kept mounted from the top
+   * (farther screens are unmounted until navigated back)
+   */
+  maxMountedScreens?: number
+
+  /**
+   * Connects navigator to the native host app
+   * (back key, close action and native swipe back)
+   */
+  bridge?: INavigatorBridge
+
+  /**
+   * URL (path and querystring) rendered on the server (e.g. `req.url`)
+   * (ignored in browsers)
+   */
+  location?: string
+
   /**
    * Class name appended to root div element
    */
@@ -53,6 +198,7 @@ interface INavigatorProps {
 
   /**
    * When close button clicked
+   * (or back key of `bridge` pressed on the root screen)
    */
   onClose?: () => void
 
@@ -60,51 +206,285 @@ interface INavigatorProps {
    * When navigation depth changed
    */
   onDepthChange?: (depth: number) => void
+
+  /**
+   * When transition animation started
+   */
+  onTransitionStart?: (e: ITransitionEvent) => void
+
+  /**
+   * When transition animation finished
+   */
+  onTransitionEnd?: (e: ITransitionEvent) => void
+
+  /**
+   * When swipe back gesture started (only with swipe back gesture enabled)
+   */
+  onSwipeBackStart?: (e: ITransitionEvent) => void
+
+  /**
+   * When swipe back gesture released without popping (only with swipe back gesture enabled)
+   */
+  onSwipeBackCancel?: (e: ITransitionEvent) => void
+
+  /**
+   * When swipe back gesture popped the screen (only with swipe back gesture enabled)
+   */
+  onSwipeBackComplete?: (e: ITransitionEvent) => void
 }
 const Navigator: React.FC<INavigatorProps> = ({
+  name,
   theme = 'Android',
-  animationDuration = theme === 'Android'
-    ? DEFAULT_ANDROID_ANIMATION_DURATION
-    : DEFAULT_CUPERTINO_ANIMATION_DURATION,
+  themeDetector,
+  colorScheme = 'light',
+  tokens,
+  animationDuration: animationDurationProp,
+  transitions,
+  gesture,
   useCustomRouter,
+  historyAdapter: historyAdapterProp,
+  persistStack,
+  stackStorage,
+  initialStack,
+  screenInstanceIdGenerator,
+  navigatorParams,
+  beforeEach,
+  afterEach,
+  maxMountedScreens = Infinity,
+  bridge,
+  location,
   className,
   backButtonAriaLabel = 'Go back',
   closeButtonAriaLabel = 'Close',
   onClose,
   onDepthChange,
+  onTransitionStart,
+  onTransitionEnd,
+  onSwipeBackStart,
+  onSwipeBackCancel,
+  onSwipeBackComplete,
   children,
 }) => {
+  const routerHistory = useRouterHistory()
+
+  /**
+   * Nested in another navigator (e.g. a stack per tab)
+   */
+  const nested = !!useStore()
+  const parentHistory = useContext(ContextHistory)?.history
+  const parentScreenInstance = useScreenInstance()
+  const parentNavigatorParamsConfig = useNavigatorParamsConfig()
+  const parentNavigationGuards = useNavigationGuards()
+
+  /**
+   * Param of the enclosing location keeping the location of this navigator
+   */
+  const nestedParam =
+    parentHistory && !historyAdapterProp && !useCustomRouter
+      ? getNestedParam(name ?? 'nested', parentNavigatorParamsConfig)
+      : null
+
+  const historyAdapter: IHistoryAdapter =
+    historyAdapterProp ??
+    (useCustomRouter
+      ? createCustomRouterHistoryAdapter()
+      : parentHistory && nestedParam
+      ? {
+          createHistory: () =>
+            createScopedHistory(parentHistory, {
+              param: nestedParam,
+              host: parentScreenInstance,
+              navigatorParamsConfig: parentNavigatorParamsConfig,
+            }),
+          provideRouter: true,
+        }
+      : createHashHistoryAdapter())
+
+  /**
+   * On the server, the outermost navigator runs on memory history
+   * at `location` (or the location of the enclosing `<Router />`)
+   */
+  const [history] = useState(() =>
+    typeof window === 'undefined' && !nested
+      ? createMemoryHistory({
+          initialEntries: [
+            location ??
+              (routerHistory ? createPath(routerHistory.location) : '/'),
+          ],
+        })
+      : historyAdapter.createHistory(routerHistory)
+  )
+
+  /**
+   * Navigators keeping their locations in the same URL
+   * overwrite each other's locations
+   */
+  useEffect(() => {
+    const url =
+      parentHistory && nestedParam
+        ? parentHistory
+        : 'entries' in history
+        ? null
+        : window
+
+    if (!url) {
+      return
+    }
+
+    const claim = claimNavigatorUrl(
+      url,
+      `${parentScreenInstance?.screenInstanceId ?? ''}:${nestedParam ?? ''}`
+    )
+
+    if (claim.shared) {
+      console.warn(
+        nestedParam
+          ? `Navigators nested in the same screen share "${nestedParam}" of URL (give them different \`name\`s)`
+          : 'Navigators share URL (run all but one on `createMemoryHistoryAdapter()`, or nest them)'
+      )
+    }
+
+    return claim.release
+  }, [history])
+
+  /**
+   * `auto` is decided after mount (and renders `Android` until then),
+   * so that the markup rendered on the server is hydrated as is
+   */
+  const [detectedTheme, setDetectedTheme] = useState<INavigatorTheme>('Android')
+  useIsomorphicLayoutEffect(() => {
+    if (theme === 'auto') {
+      setDetectedTheme((themeDetector ?? detectThemeFromUserAgent)())
+    }
+  }, [theme, themeDetector])
+
+  const resolvedTheme = useMemo(
+    () => resolveTheme(theme, () => detectedTheme),
+    [theme, detectedTheme]
+  )
+  const animationDuration =
+    animationDurationProp ?? resolvedTheme.animationDuration
+
+  const parentNavigatorPath = useNavigatorPath()
+  const navigatorPath = useMemo(
+    () => [
+      ...parentNavigatorPath,
+      name ?? (parentNavigatorPath.length > 0 ? 'nested' : ''),
+    ],
+    [parentNavigatorPath, name]
+  )
+
+  const resolvedStackStorage = useMemo(
+    () => (persistStack ? stackStorage ?? getDefaultStackStorage() : null),
+    [persistStack, stackStorage]
+  )
+
+  const resolvedTransitions = useMemo(
+    () => ({
+      ...builtInTransitions,
+      ...transitions,
+    }),
+    [transitions]
+  )
+
+  const navigatorParamsConfig = useMemo(
+    () => resolveNavigatorParamsConfig(navigatorParams),
+    [
+      navigatorParams?.keys?.screenInstanceId,
+      navigatorParams?.keys?.present,
+      navigatorParams?.keys?.detents,
+      navigatorParams?.keys?.transition,
+      navigatorParams?.keys?.nested,
+      navigatorParams?.storage,
+    ]
+  )
+
+  if (
+    navigatorParamsConfig.storage === 'state' &&
+    !supportsHistoryState(history)
+  ) {
+    throw new Error(
+      "`navigatorParams.storage: 'state'` requires history keeping `history.state` (hash history drops it, use `createBrowserHistoryAdapter()` or `createMemoryHistoryAdapter()`)"
+    )
+  }
+
+  /**
+   * Guards of enclosing navigators also guard nested ones
+   */
+  const navigationGuards = useMemo(
+    () => ({
+      beforeEach: chainBeforeEach(
+        parentNavigationGuards.beforeEach,
+        beforeEach
+      ),
+      afterEach: chainAfterEach(parentNavigationGuards.afterEach, afterEach),
+    }),
+    [parentNavigationGuards, beforeEach, afterEach]
+  )
+
+  const close = useCallback(() => {
+    onClose?.()
+    bridge?.requestClose()
+  }, [onClose, bridge])
+
   let h = (
-    <UniqueIdProvider>
-      <StoreProvider>
-        <div
-          className={[
-            css.root({ theme }),
-            ...(className ? [className] : []),
-          ].join(' ')}
-          style={assignInlineVars({
-            [css.vars.animationDuration]: animationDuration + 'ms',
-          })}
-        >
-          <TransitionGroup component={null}>
-            <Stack
-              animationDuration={animationDuration}
-              theme={theme}
-              onClose={onClose}
-              backButtonAriaLabel={backButtonAriaLabel}
-              closeButtonAriaLabel={closeButtonAriaLabel}
-              onDepthChange={onDepthChange}
-            >
-              {children}
-            </Stack>
-          </TransitionGroup>
-        </div>
-      </StoreProvider>
-    </UniqueIdProvider>
+    <HistoryProvider history={history}>
+      <NavigatorPathProvider value={navigatorPath}>
+        <NavigatorParamsProvider value={navigatorParamsConfig}>
+          <NavigationGuardsProvider value={navigationGuards}>
+            <UniqueIdProvider generator={screenInstanceIdGenerator}>
+              <StoreProvider>
+                <div
+                  className={[
+                    css.root({ theme: resolvedTheme.layout, colorScheme }),
+                    ...(className ? [className] : []),
+                  ].join(' ')}
+                  style={assignInlineVars({
+                    [css.vars.animationDuration]: animationDuration + 'ms',
+                    ...makeTokenVars(css.vars, {
+                      navbar: resolvedTheme.navbar,
+                    }),
+                    ...makeTokenVars(css.vars, tokens),
+                  })}
+                >
+                  <TransitionGroup component={null}>
+                    <Stack
+                      animationDuration={animationDuration}
+                      transitions={resolvedTransitions}
+                      gesture={gesture}
+                      theme={resolvedTheme}
+                      bridge={bridge}
+                      onClose={onClose || bridge ? close : undefined}
+                      backButtonAriaLabel={backButtonAriaLabel}
+                      closeButtonAriaLabel={closeButtonAriaLabel}
+                      stackStorage={resolvedStackStorage}
+                      stackSnapshotKey={getStackSnapshotKey(navigatorPath)}
+                      initialStack={initialStack}
+                      maxMountedScreens={maxMountedScreens}
+                      onDepthChange={onDepthChange}
+                      onTransitionStart={onTransitionStart}
+                      onTransitionEnd={onTransitionEnd}
+                      onSwipeBackStart={onSwipeBackStart}
+                      onSwipeBackCancel={onSwipeBackCancel}
+                      onSwipeBackComplete={onSwipeBackComplete}
+                    >
+                      {children}
+                    </Stack>
+                  </TransitionGroup>
+                </div>
+              </StoreProvider>
+            </UniqueIdProvider>
+          </NavigationGuardsProvider>
+        </NavigatorParamsProvider>
+      </NavigatorPathProvider>
+    </HistoryProvider>
   )
 
-  if (!useCustomRouter) {
-    h = <HashRouter>{h}</HashRouter>
+  if (historyAdapter.provideRouter) {
+    h = <Router history={history}>{h}</Router>
+  }
+  if (nested) {
+    h = <NavigatorScopes>{h}</NavigatorScopes>
   }
 
   return h
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import React from 'react'
+import { renderToString } from 'react-dom/server'
+
+import Navigator from './Navigator'
+import Screen from './Screen'
+
+describe('<Screen /> on the server', () => {
+  test('renders the entry screen before the other children', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const html = renderToString(
+      <Navigator location="/posts">
+        <Screen path="/" component={() => <div>home</div>} />
+        <Screen path="/posts" component={() => <div>posts</div>} />
+        <footer />
+      </Navigator>
+    )
+
+    expect(html).toContain('<div>posts</div>')
+    expect(html).not.toContain('<div>home</div>')
+    expect(html.indexOf('posts')).toBeLessThan(html.indexOf('<footer>'))
+    expect(error).not.toHaveBeenCalled()
+
+    error.mockRestore()
+  })
+})
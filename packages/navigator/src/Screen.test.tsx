@@ -0,0 +1,21 @@
+import React from 'react'
+
+import { renderNavigator } from './_test/renderNavigator'
+
+const screens = {
+  '/': () => <div>home</div>,
+  '/posts': () => <div>posts</div>,
+}
+
+describe('<Screen />', () => {
+  test('is registered without updating the store while rendering', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const { getByText, getStack } = renderNavigator({ screens })
+
+    expect(getByText('home')).toBeTruthy()
+    expect(getStack()).toEqual(['/'])
+    expect(error).not.toHaveBeenCalled()
+
+    error.mockRestore()
+  })
+})
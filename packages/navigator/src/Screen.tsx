@@ -1,10 +1,7 @@
-import React, { useCallback, useEffect, useMemo } from 'react'
+import React, { useEffect, useMemo } from 'react'
 
-import {
-  ScreenInstanceProvider,
-  ScreenInstanceSetNavbarProvider,
-} from './contexts'
-import { INavbarOptions, useStoreActions } from './store'
+import { IScreen, useStoreActions } from './store'
+import { IGesture, ITransition } from './types'
 
 interface IScreenProps {
   /**
@@ -16,62 +13,79 @@ interface IScreenProps {
    * Component
    */
   component?: React.ComponentType
+
+  /**
+   * Keep the screen mounted even if it is farther than
+   * `maxMountedScreens` from the top
+   */
+  keepAlive?: boolean
+
+  /**
+   * Restore scroll position when the screen is back to the top
+   * or mounted again (default: `true`)
+   */
+  scrollRestoration?: boolean
+
+  /**
+   * Transition of the screen (built-in or registered name, or definition)
+   */
+  transition?: ITransition | string
+
+  /**
+   * Edge swipe back gesture options (overrides `gesture` of `Navigator`)
+   */
+  gesture?: IGesture
 }
+/**
+ * Screen registered by `<Screen />`
+ * (also resolved from the children of navigator before registered)
+ */
+export function createScreen(
+  props: React.PropsWithChildren<IScreenProps>
+): IScreen | null {
+  if (!props.component && !props.children) {
+    return null
+  }
+
+  return {
+    id: props.path,
+    path: props.path,
+    keepAlive: props.keepAlive ?? false,
+    scrollRestoration: props.scrollRestoration ?? true,
+    transition: props.transition,
+    gesture: props.gesture,
+    component: props.component,
+    children: props.children,
+  }
+}
+
 const Screen: React.FC<IScreenProps> = (props) => {
-  const { component: Component } = props
-  const { registerScreen, addScreenInstanceOption } = useStoreActions()
+  const { registerScreen } = useStoreActions()
+
+  const screen = useMemo(
+    () => createScreen(props),
+    [
+      props.path,
+      props.keepAlive,
+      props.scrollRestoration,
+      props.transition,
+      props.gesture,
+      props.component,
+    ]
+  )
 
   useEffect(() => {
-    if (!props.children && !Component) {
+    if (!screen) {
       console.warn('Either component props or children is required')
       return
     }
 
-    const screenId = props.path
-
-    const unregisterScreen = registerScreen({
-      screen: {
-        id: screenId,
-        path: props.path,
-        Component({ screenInstanceId, as, isTop, isRoot }) {
-          const setNavbar = useCallback(
-            (navbar: INavbarOptions) => {
-              addScreenInstanceOption({
-                screenInstanceId,
-                screenInstanceOption: {
-                  navbar,
-                },
-              })
-            },
-            [addScreenInstanceOption, screenInstanceId]
-          )
-
-          const screenInstanceContext = useMemo(
-            () => ({
-              screenInstanceId,
-              as,
-              isTop,
-              isRoot,
-              path: props.path,
-            }),
-            [screenInstanceId, as, isTop, isRoot, props.path]
-          )
-
-          return (
-            <ScreenInstanceProvider value={screenInstanceContext}>
-              <ScreenInstanceSetNavbarProvider value={setNavbar}>
-                {Component ? <Component /> : props.children}
-              </ScreenInstanceSetNavbarProvider>
-            </ScreenInstanceProvider>
-          )
-        },
-      },
-    })
+    const unregisterScreen = registerScreen({ screen })
 
     return () => {
       unregisterScreen()
     }
-  }, [props.path, Component])
+  }, [screen])
 
   return null
 }
@@ -0,0 +1,32 @@
+import React, { useRef } from 'react'
+
+import { useScreenInstance, useSharedElementRegistry } from './contexts'
+import { useIsomorphicLayoutEffect } from './hooks'
+
+interface ISharedElementProps {
+  /**
+   * Elements with the same `id` morph into each other
+   * when navigating between screens
+   */
+  id: string
+}
+const SharedElement: React.FC<ISharedElementProps> = (props) => {
+  const { screenInstanceId } = useScreenInstance()
+  const sharedElementRegistry = useSharedElementRegistry()
+
+  const ref = useRef<HTMLDivElement>(null)
+
+  useIsomorphicLayoutEffect(() => {
+    const $el = ref.current
+
+    if (!$el) {
+      return
+    }
+
+    return sharedElementRegistry.register(screenInstanceId, props.id, $el)
+  }, [sharedElementRegistry, screenInstanceId, props.id])
+
+  return <div ref={ref}>{props.children}</div>
+}
+
+export default SharedElement
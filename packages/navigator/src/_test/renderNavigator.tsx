@@ -0,0 +1,73 @@
+import { act, render } from '@testing-library/react'
+import { createMemoryHistory, History } from 'history'
+import React from 'react'
+
+import Navigator from '../Navigator'
+import Screen from '../Screen'
+import { GlobalState, useStore } from '../store'
+import { INavigator, useNavigator } from '../useNavigator'
+
+/**
+ * Render a navigator on memory history with a probe that exposes
+ * the navigator and its store to tests
+ */
+export function renderNavigator({
+  screens,
+  initialEntries = ['/'],
+  history = createMemoryHistory({ initialEntries }),
+  ...navigatorProps
+}: {
+  screens: { [path: string]: React.ComponentType<any> }
+  initialEntries?: string[]
+  history?: History
+} & Omit<React.ComponentProps<typeof Navigator>, 'historyAdapter'>) {
+  const probe: {
+    navigator: INavigator | null
+    getState: (() => GlobalState) | null
+  } = {
+    navigator: null,
+    getState: null,
+  }
+
+  const Probe: React.FC = () => {
+    const store = useStore()
+    probe.navigator = useNavigator()
+    probe.getState = store.getState
+    return null
+  }
+
+  const result = render(
+    <Navigator
+      historyAdapter={{ createHistory: () => history, provideRouter: true }}
+      {...navigatorProps}
+    >
+      <Probe />
+      {Object.entries(screens).map(([path, component]) => (
+        <Screen key={path} path={path} component={component} />
+      ))}
+    </Navigator>
+  )
+
+  return {
+    ...result,
+    history,
+    navigator: () => probe.navigator!,
+    getState: () => probe.getState!(),
+    /**
+     * Paths of the screen instances up to the pointer
+     */
+    getStack: () => {
+      const { screenInstances, screenInstancePtr } = probe.getState!()
+      return screenInstances
+        .filter((_, idx) => idx <= screenInstancePtr)
+        .map((screenInstance) => screenInstance.as)
+    },
+  }
+}
+
+/**
+ * Let promises (e.g. of navigation guards) settle
+ */
+export function flush() {
+  return act(() => new Promise<void>((resolve) => setTimeout(resolve, 0)))
+}
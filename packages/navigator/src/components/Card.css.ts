@@ -1,8 +1,31 @@
-import { style } from '@vanilla-extract/css'
+import { createVar, fallbackVar, style } from '@vanilla-extract/css'
 import { recipe } from '@vanilla-extract/recipes'
 
 import { vars } from '../Navigator.css'
 
+export const transitionVars = {
+  duration: createVar(),
+  easing: createVar(),
+  from: {
+    opacity: createVar(),
+    transform: createVar(),
+  },
+  to: {
+    opacity: createVar(),
+    transform: createVar(),
+  },
+  underneathDuration: createVar(),
+  underneathEasing: createVar(),
+  underneathFrom: {
+    opacity: createVar(),
+    transform: createVar(),
+  },
+  underneathTo: {
+    opacity: createVar(),
+    transform: createVar(),
+  },
+}
+
 export const container = style({
   position: 'absolute',
   top: '0',
@@ -37,10 +60,10 @@ export const dim = recipe({
     transition: `opacity ${vars.animationDuration}`,
     selectors: {
       [`${container_enterActive} &`]: {
-        opacity: 1,
+        opacity: vars.dimOpacity,
       },
       [`${container_enterDone} &`]: {
-        opacity: 1,
+        opacity: vars.dimOpacity,
       },
       [`${container_exitActive} &`]: {
         opacity: 0,
@@ -61,12 +84,18 @@ export const dim = recipe({
         top: 0,
       },
     },
-    android: {
+    gradient: {
       true: {
         height: '10rem',
         background: `linear-gradient(${vars.dimBackgroundColor}, rgba(0, 0, 0, 0))`,
       },
     },
+    gradientAndIsPresent: {
+      true: {
+        height: '100%',
+        background: vars.dimBackgroundColor,
+      },
+    },
   },
 })
 
@@ -160,6 +189,31 @@ export const main = recipe({
         transform: 'translateY(0)',
       },
     },
+    androidAndIsPresent: {
+      true: {
+        opacity: 1,
+        transform: 'translateY(100%)',
+        transitionTimingFunction: 'cubic-bezier(0.2, 0, 0, 1)',
+        selectors: {
+          [`${container_enterActive} &`]: {
+            opacity: 1,
+            transform: 'translateY(0)',
+          },
+          [`${container_enterDone} &`]: {
+            opacity: 1,
+            transform: 'translateY(0)',
+          },
+          [`${container_exitActive} &`]: {
+            opacity: 1,
+            transform: 'translateY(100%)',
+          },
+          [`${container_exitDone} &`]: {
+            opacity: 1,
+            transform: 'translateY(100%)',
+          },
+        },
+      },
+    },
   },
 })
 
@@ -239,25 +293,92 @@ export const frame = recipe({
   },
 })
 
+/**
+ * Width of the edge where swipe back starts (`edgeWidth` of gesture)
+ */
+export const edgeWidth = createVar()
+
 export const edge = recipe({
   base: {
     position: 'absolute',
     left: 0,
     height: '100%',
-    width: '1.25rem',
+    width: fallbackVar(edgeWidth, '1.25rem'),
   },
   variants: {
     isNavbarVisible: {
       true: {
         display: 'block',
+        top: vars.navbar.height,
       },
       false: {
         top: 0,
       },
     },
-    cupertinoAndIsNavbarVisible: {
+  },
+})
+
+/**
+ * Custom transition of the screen (`transition` of `Screen` or `push()`)
+ */
+export const mainTransition = style({
+  opacity: transitionVars.from.opacity,
+  transform: transitionVars.from.transform,
+  willChange: 'transform, opacity',
+  transition: [
+    `transform ${fallbackVar(
+      transitionVars.duration,
+      vars.animationDuration
+    )} ${fallbackVar(transitionVars.easing, 'ease')}`,
+    `opacity ${fallbackVar(
+      transitionVars.duration,
+      vars.animationDuration
+    )} ${fallbackVar(transitionVars.easing, 'ease')}`,
+  ].join(', '),
+  selectors: {
+    [`${container_enterActive} &`]: {
+      opacity: transitionVars.to.opacity,
+      transform: transitionVars.to.transform,
+    },
+    [`${container_enterDone} &`]: {
+      opacity: transitionVars.to.opacity,
+      transform: transitionVars.to.transform,
+    },
+    [`${container_exitActive} &`]: {
+      opacity: transitionVars.from.opacity,
+      transform: transitionVars.from.transform,
+    },
+    [`${container_exitDone} &`]: {
+      opacity: transitionVars.from.opacity,
+      transform: transitionVars.from.transform,
+    },
+  },
+})
+
+/**
+ * Custom transition of the screen underneath the one covering it
+ */
+export const frameOffsetTransition = recipe({
+  base: {
+    opacity: transitionVars.underneathFrom.opacity,
+    transform: transitionVars.underneathFrom.transform,
+    willChange: 'transform, opacity',
+    transition: [
+      `transform ${fallbackVar(
+        transitionVars.underneathDuration,
+        vars.animationDuration
+      )} ${fallbackVar(transitionVars.underneathEasing, 'ease')}`,
+      `opacity ${fallbackVar(
+        transitionVars.underneathDuration,
+        vars.animationDuration
+      )} ${fallbackVar(transitionVars.underneathEasing, 'ease')}`,
+    ].join(', '),
+  },
+  variants: {
+    isNotTop: {
       true: {
-        top: '2.75rem',
+        opacity: transitionVars.underneathTo.opacity,
+        transform: transitionVars.underneathTo.transform,
       },
     },
   },
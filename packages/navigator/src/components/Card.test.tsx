@@ -0,0 +1,177 @@
+import { act, fireEvent } from '@testing-library/react'
+
+import { flush, renderNavigator } from '../_test/renderNavigator'
+import { ITransitionEvent } from '../types'
+import * as css from './Card.css'
+
+const SCREEN_WIDTH = 400
+
+const screens = {
+  '/': () => null,
+  '/threads/:threadId': () => null,
+}
+
+function renderSwipeable(beforeEach?: () => boolean) {
+  const onSwipeBackStart = jest.fn<void, [ITransitionEvent]>()
+  const onSwipeBackCancel = jest.fn<void, [ITransitionEvent]>()
+  const onSwipeBackComplete = jest.fn<void, [ITransitionEvent]>()
+
+  const rendered = renderNavigator({
+    screens,
+    theme: 'Cupertino',
+    beforeEach,
+    onSwipeBackStart,
+    onSwipeBackCancel,
+    onSwipeBackComplete,
+  })
+
+  act(() => {
+    rendered.navigator().push('/threads/1')
+  })
+
+  /**
+   * Swipe the edge from `from` to `to` (client x) in `duration` ms
+   */
+  const swipe = (from: number, to: number, duration = 500) => {
+    const edge = rendered.container.querySelector<HTMLElement>(
+      '[class^="Card_edge_"]'
+    )!
+    const now = Date.now()
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now)
+
+    fireEvent.touchStart(edge, { touches: [{ clientX: from }] })
+    fireEvent.touchMove(edge, { touches: [{ clientX: to }] })
+    dateNow.mockReturnValue(now + duration)
+    fireEvent.touchEnd(edge)
+
+    dateNow.mockRestore()
+  }
+
+  return {
+    ...rendered,
+    swipe,
+    onSwipeBackStart,
+    onSwipeBackCancel,
+    onSwipeBackComplete,
+  }
+}
+
+describe('swipe back', () => {
+  beforeEach(() => {
+    Object.defineProperty(HTMLElement.prototype, 'clientWidth', {
+      configurable: true,
+      get: () => SCREEN_WIDTH,
+    })
+    jest
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((callback) => {
+        callback(0)
+        return 0
+      })
+  })
+
+  afterEach(() => {
+    delete (HTMLElement.prototype as { clientWidth?: number }).clientWidth
+    jest.restoreAllMocks()
+  })
+
+  test('pops when swiped far enough', async () => {
+    const { swipe, getStack, onSwipeBackStart, onSwipeBackComplete } =
+      renderSwipeable()
+
+    swipe(5, 300)
+    await flush()
+
+    const e = {
+      from: expect.objectContaining({ path: '/threads/1' }),
+      to: expect.objectContaining({ path: '/' }),
+      direction: 'backward',
+    }
+    expect(onSwipeBackStart).toHaveBeenCalledWith(e)
+    expect(onSwipeBackComplete).toHaveBeenCalledWith(e)
+    expect(getStack()).toEqual(['/'])
+  })
+
+  test('pops when flicked', async () => {
+    const { swipe, getStack, onSwipeBackComplete } = renderSwipeable()
+
+    swipe(5, 100, 50)
+    await flush()
+
+    expect(onSwipeBackComplete).toHaveBeenCalledTimes(1)
+    expect(getStack()).toEqual(['/'])
+  })
+
+  test('is canceled when released early', async () => {
+    const { swipe, getStack, onSwipeBackCancel, onSwipeBackComplete } =
+      renderSwipeable()
+
+    swipe(5, 100)
+    await flush()
+
+    expect(onSwipeBackCancel).toHaveBeenCalledTimes(1)
+    expect(onSwipeBackComplete).not.toHaveBeenCalled()
+    expect(getStack()).toEqual(['/', '/threads/1'])
+  })
+
+  test('is canceled by the guards', async () => {
+    const beforeEach = jest.fn(() => true)
+    const { swipe, getStack, onSwipeBackCancel, onSwipeBackComplete } =
+      renderSwipeable(beforeEach)
+
+    beforeEach.mockReturnValue(false)
+    swipe(5, 300)
+    await flush()
+
+    expect(onSwipeBackCancel).toHaveBeenCalledTimes(1)
+    expect(onSwipeBackComplete).not.toHaveBeenCalled()
+    expect(getStack()).toEqual(['/', '/threads/1'])
+  })
+})
+
+describe('present', () => {
+  /**
+   * Class of a variant of the recipe (without the base class)
+   */
+  const variantClass = (className: string) => className.split(' ')[1]
+
+  function renderPresented(theme: 'Android' | 'Cupertino', present: boolean) {
+    const rendered = renderNavigator({ screens, theme })
+
+    act(() => {
+      rendered.navigator().push('/threads/1', { present })
+    })
+
+    const query = (name: string) =>
+      Array.from(
+        rendered.container.querySelectorAll<HTMLElement>(
+          `[class^="Card_${name}_"]`
+        )
+      )
+
+    return {
+      underneathOffset: query('mainOffset')[0],
+      card: query('main')[1],
+    }
+  }
+
+  test('slides up from the bottom on Android', () => {
+    const presented = variantClass(css.main({ androidAndIsPresent: true }))
+
+    expect(renderPresented('Android', true).card.classList).toContain(presented)
+    expect(renderPresented('Android', false).card.classList).not.toContain(
+      presented
+    )
+  })
+
+  test('keeps the screen underneath in place', () => {
+    const covered = variantClass(css.mainOffset({ androidAndIsNotTop: true }))
+
+    expect(
+      renderPresented('Android', true).underneathOffset.classList
+    ).not.toContain(covered)
+    expect(
+      renderPresented('Android', false).underneathOffset.classList
+    ).toContain(covered)
+  })
+})
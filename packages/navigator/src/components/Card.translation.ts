@@ -1,15 +1,32 @@
-const MAX_FRAME_OFFSET = 80
+import { interpolateTransitionStyle, toTransitionCSS } from '../helpers'
+import { vars } from '../Navigator.css'
+import { INavigatorThemeDefinition, ITransition } from '../types'
+
+/**
+ * Scale and shift of the screen at the end of Android swipe back
+ * (predictive back)
+ */
+const ANDROID_MIN_SCALE = 0.9
+const ANDROID_MAX_SHIFT = 24
 
 const css = String.raw
 
 export function makeTranslation({
   $dim,
+  $main,
   $frame,
   $frameOffset,
+  layout,
+  transition,
+  underneathOffset,
 }: {
   $dim: HTMLElement
+  $main: HTMLElement
   $frame: HTMLElement
   $frameOffset: HTMLElement
+  layout: INavigatorThemeDefinition['layout']
+  transition?: ITransition
+  underneathOffset: number
 }) {
   let _rAFLock = false
 
@@ -30,18 +47,69 @@ export function makeTranslation({
           const p = dx / $frame.clientWidth
 
           $dim.style.cssText = css`
-            opacity: ${1 - p};
+            opacity: calc(${1 - p} * ${vars.dimOpacity});
             transition: opacity 0s;
           `
-          $frame.style.cssText = css`
-            overflow-y: hidden;
-            transform: translateX(${dx}px);
-            transition: transform 0s;
-          `
-          $frameOffset.style.cssText = css`
-            transform: translateX(${-1 * (1 - p) * MAX_FRAME_OFFSET}px);
-            transition: transform 0s;
-          `
+
+          if (transition) {
+            /**
+             * Swiping back plays the custom transition backward
+             */
+            const current = toTransitionCSS(
+              interpolateTransitionStyle(
+                transition.current.to,
+                transition.current.from,
+                p
+              )
+            )
+            const underneath = toTransitionCSS(
+              interpolateTransitionStyle(
+                transition.underneath?.to ?? {},
+                transition.underneath?.from ?? {},
+                p
+              )
+            )
+
+            $main.style.cssText = css`
+              opacity: ${current.opacity};
+              transform: ${current.transform};
+              transition: transform 0s, opacity 0s;
+            `
+            $frame.style.cssText = css`
+              overflow-y: hidden;
+            `
+            $frameOffset.style.cssText = css`
+              opacity: ${underneath.opacity};
+              transform: ${underneath.transform};
+              transition: transform 0s, opacity 0s;
+            `
+          } else if (layout === 'Android') {
+            /**
+             * The screen shrinks toward the finger instead of following it
+             */
+            const q = Math.max(p, 0)
+
+            $main.style.cssText = css`
+              overflow: hidden;
+              border-radius: ${q}rem;
+              transform: translateX(${q * ANDROID_MAX_SHIFT}px)
+                scale(${1 - q * (1 - ANDROID_MIN_SCALE)});
+              transition: transform 0s;
+            `
+            $frame.style.cssText = css`
+              overflow-y: hidden;
+            `
+          } else {
+            $frame.style.cssText = css`
+              overflow-y: hidden;
+              transform: translateX(${dx}px);
+              transition: transform 0s;
+            `
+            $frameOffset.style.cssText = css`
+              transform: translateX(${-1 * (1 - p) * underneathOffset}px);
+              transition: transform 0s;
+            `
+          }
 
           onAnimationFrame?.(dx)
           _rAFLock = false
@@ -51,6 +119,7 @@ export function makeTranslation({
     resetTranslation() {
       requestAnimationFrame(() => {
         $dim.style.cssText = ''
+        $main.style.cssText = ''
         $frame.style.cssText = ''
         $frameOffset.style.cssText = ''
       })
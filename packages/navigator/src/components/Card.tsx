@@ -1,15 +1,74 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react'
 import zenscroll from 'zenscroll'
 
+import { assignInlineVars } from '@vanilla-extract/dynamic'
+
+import { useSharedElementRegistry } from '../contexts'
+import { makeTransitionEvent, toTransitionCSS } from '../helpers'
+import { useScrollSnapshot } from '../hooks'
 import { useStore, useStoreSelector } from '../store'
-import { INavigatorTheme } from '../types'
-import { useNavigator } from '../useNavigator'
+import {
+  IGesture,
+  INavigatorThemeDefinition,
+  ITransition,
+  ITransitionEvent,
+} from '../types'
+import useGuardedPop from './_lib/useGuardedPop'
 import * as css from './Card.css'
 import { makeTranslation } from './Card.translation'
 import Navbar from './Navbar'
 
+const FRAME_SCROLL_KEY = '@frame'
+
+function makeTransitionVars({
+  transition,
+  coveringTransition,
+}: {
+  transition?: ITransition
+  coveringTransition?: ITransition
+}) {
+  const vars: { [cssVar: string]: string } = {}
+
+  if (transition) {
+    const from = toTransitionCSS(transition.current.from)
+    const to = toTransitionCSS(transition.current.to)
+
+    vars[css.transitionVars.from.opacity] = from.opacity
+    vars[css.transitionVars.from.transform] = from.transform
+    vars[css.transitionVars.to.opacity] = to.opacity
+    vars[css.transitionVars.to.transform] = to.transform
+
+    if (transition.duration !== undefined) {
+      vars[css.transitionVars.duration] = `${transition.duration}ms`
+    }
+    if (transition.easing) {
+      vars[css.transitionVars.easing] = transition.easing
+    }
+  }
+  if (coveringTransition) {
+    const from = toTransitionCSS(coveringTransition.underneath?.from ?? {})
+    const to = toTransitionCSS(coveringTransition.underneath?.to ?? {})
+
+    vars[css.transitionVars.underneathFrom.opacity] = from.opacity
+    vars[css.transitionVars.underneathFrom.transform] = from.transform
+    vars[css.transitionVars.underneathTo.opacity] = to.opacity
+    vars[css.transitionVars.underneathTo.transform] = to.transform
+
+    if (coveringTransition.duration !== undefined) {
+      vars[
+        css.transitionVars.underneathDuration
+      ] = `${coveringTransition.duration}ms`
+    }
+    if (coveringTransition.easing) {
+      vars[css.transitionVars.underneathEasing] = coveringTransition.easing
+    }
+  }
+
+  return vars
+}
+
 interface ICardProps {
-  theme: INavigatorTheme
+  theme: INavigatorThemeDefinition
   nodeRef: React.RefObject<HTMLDivElement>
   beforeTopFrameOffsetRef: React.RefObject<HTMLDivElement>
   screenPath: string
@@ -18,57 +77,120 @@ interface ICardProps {
   isTop: boolean
   isBeforeTop: boolean
   isPresent: boolean
+  isMounted: boolean
+  animationDuration: number
+  scrollRestoration: boolean
+  gesture: Required<IGesture>
+  transition?: ITransition
+  coveringTransition?: ITransition
   backButtonAriaLabel: string
   closeButtonAriaLabel: string
   onClose?: () => void
+  onSwipeBackStart?: (e: ITransitionEvent) => void
+  onSwipeBackCancel?: (e: ITransitionEvent) => void
+  onSwipeBackComplete?: (e: ITransitionEvent) => void
 }
 const Card: React.FC<ICardProps> = (props) => {
-  const { pop } = useNavigator()
+  const guardedPop = useGuardedPop()
+
+  const android = props.theme.layout === 'Android'
+  const cupertino = props.theme.layout === 'Cupertino'
 
-  const android = props.theme === 'Android'
-  const cupertino = props.theme === 'Cupertino'
+  /**
+   * Custom transitions replace the transition of the theme
+   */
+  const transitioned = !!props.transition && !props.isRoot
+  const covered = !!props.coveringTransition
 
   const [popped, setPopped] = useState(false)
 
+  const sharedElementRegistry = useSharedElementRegistry()
+
   const store = useStore()
   const { screenInstanceOptions } = useStoreSelector((state) => ({
     screenInstanceOptions: state.screenInstanceOptions,
   }))
   const dimRef = useRef<HTMLDivElement>(null)
+  const mainRef = useRef<HTMLDivElement>(null)
   const frameRef = useRef<HTMLDivElement>(null)
   const frameOffsetRef = props.beforeTopFrameOffsetRef
   const edgeRef = useRef<HTMLDivElement>(null)
 
+  /**
+   * Read while swiping, so that re-rendering the card (e.g. with new
+   * callbacks) doesn't reattach the listeners in the middle of a gesture
+   */
+  const swipeBackPropsRef = useRef(props)
+  swipeBackPropsRef.current = props
+
+  useScrollSnapshot({
+    ref: frameRef,
+    screenInstanceId: props.screenInstanceId,
+    key: FRAME_SCROLL_KEY,
+    isTop: props.isTop,
+    isMounted: props.isMounted,
+    disabled: !props.scrollRestoration,
+  })
+
   useEffect(() => {
     const $dim = dimRef.current
+    const $main = mainRef.current
     const $frame = frameRef.current
     const $frameOffset = frameOffsetRef.current
     const $edge = edgeRef.current
 
-    if (!$dim || !$frame || !$frameOffset || !$edge) {
+    if (!$dim || !$main || !$frame || !$frameOffset || !$edge) {
       return
     }
 
     let x0: number | null = null
     let t0: number | null = null
     let x: number | null = null
+    let swiping = false
 
     const resetState = () => {
       x0 = null
       t0 = null
       x = null
+      swiping = false
+    }
+
+    const makeEvent = () => {
+      const { screenInstances, screenInstancePtr } = store.getState()
+
+      return makeTransitionEvent({
+        screenInstances,
+        fromIndex: screenInstancePtr,
+        toIndex: screenInstancePtr - 1,
+        direction: 'backward',
+      })
     }
 
-    const { translate, resetTranslation } = makeTranslation({
-      $dim,
-      $frame,
-      $frameOffset,
-    })
+    const createTranslation = () =>
+      makeTranslation({
+        $dim,
+        $main,
+        $frame,
+        $frameOffset,
+        layout: props.theme.layout,
+        transition: swipeBackPropsRef.current.transition,
+        underneathOffset: props.gesture.underneathOffset,
+      })
+
+    let translation = createTranslation()
 
     const onTouchStart = (e: TouchEvent) => {
+      /**
+       * Disabled by `useSwipeBack()`
+       */
+      if (store.getState().swipeBackEnabled[props.screenInstanceId] === false) {
+        return resetState()
+      }
+
       document.activeElement?.['blur']?.()
       x0 = x = e.touches[0].clientX
       t0 = Date.now()
+      translation = createTranslation()
     }
 
     const onTouchMove = (e: TouchEvent) => {
@@ -78,8 +200,27 @@ const Card: React.FC<ICardProps> = (props) => {
 
       x = e.touches[0].clientX
 
-      translate({
+      if (!swiping) {
+        swiping = true
+        swipeBackPropsRef.current.onSwipeBackStart?.(makeEvent())
+
+        const { screenInstances, screenInstancePtr } = store.getState()
+        const underneath = screenInstances[screenInstancePtr - 1]
+
+        if (underneath && props.nodeRef.current) {
+          sharedElementRegistry.start({
+            from: props.screenInstanceId,
+            to: underneath.id,
+            $container: props.nodeRef.current,
+          })
+        }
+      }
+
+      translation.translate({
         dx: x - x0,
+        onAnimationFrame(dx) {
+          sharedElementRegistry.update(dx / $frame.clientWidth)
+        },
       })
     }
 
@@ -90,14 +231,34 @@ const Card: React.FC<ICardProps> = (props) => {
 
       const t = Date.now()
       const v = (x - x0) / (t - t0)
+      const swiped =
+        v > props.gesture.velocityThreshold ||
+        x / $frame.clientWidth > props.gesture.distanceRatio
+      const wasSwiping = swiping
 
-      if (v > 1 || x / $frame.clientWidth > 0.4) {
-        setPopped(true)
-        pop()
+      resetState()
+
+      if (!swiped) {
+        if (wasSwiping) {
+          swipeBackPropsRef.current.onSwipeBackCancel?.(makeEvent())
+          sharedElementRegistry.animateTo(0, props.animationDuration)
+        }
+        return translation.resetTranslation()
       }
 
-      resetState()
-      resetTranslation()
+      guardedPop({
+        screenInstanceId: props.screenInstanceId,
+        onPop() {
+          swipeBackPropsRef.current.onSwipeBackComplete?.(makeEvent())
+          setPopped(true)
+          translation.resetTranslation()
+        },
+        onCancel() {
+          swipeBackPropsRef.current.onSwipeBackCancel?.(makeEvent())
+          sharedElementRegistry.animateTo(0, props.animationDuration)
+          translation.resetTranslation()
+        },
+      })
     }
 
     $edge.addEventListener('touchstart', onTouchStart, { passive: true })
@@ -108,8 +269,29 @@ const Card: React.FC<ICardProps> = (props) => {
       $edge.removeEventListener('touchstart', onTouchStart)
       $edge.removeEventListener('touchmove', onTouchMove)
       $edge.removeEventListener('touchend', onTouchEnd)
+
+      /**
+       * e.g. theme is switched while swiping
+       */
+      if (swiping) {
+        translation.resetTranslation()
+      }
     }
-  }, [dimRef, frameRef, frameOffsetRef, edgeRef, setPopped, pop])
+  }, [
+    props.theme,
+    props.gesture.enabled,
+    props.gesture.velocityThreshold,
+    props.gesture.distanceRatio,
+    props.gesture.underneathOffset,
+    dimRef,
+    frameRef,
+    frameOffsetRef,
+    edgeRef,
+    setPopped,
+    guardedPop,
+    props.animationDuration,
+    sharedElementRegistry,
+  ])
 
   const onTopClick = useCallback(() => {
     const $frame = frameRef.current
@@ -129,35 +311,57 @@ const Card: React.FC<ICardProps> = (props) => {
     screenInstanceOptions[props.screenInstanceId]?.navbar.visible ?? false
 
   return (
-    <div ref={props.nodeRef} className={css.container}>
+    <div
+      ref={props.nodeRef}
+      className={css.container}
+      style={assignInlineVars(
+        makeTransitionVars({
+          transition: props.transition,
+          coveringTransition: props.coveringTransition,
+        })
+      )}
+    >
       {!props.isRoot && (
         <div
           className={css.dim({
-            android: android ? true : undefined,
+            gradient: props.theme.dim === 'gradient' ? true : undefined,
             cupertinoAndIsNavbarVisible:
               cupertino && isNavbarVisible ? true : undefined,
             cupertinoAndIsPresent:
               cupertino && props.isPresent ? true : undefined,
+            gradientAndIsPresent:
+              props.theme.dim === 'gradient' && props.isPresent
+                ? true
+                : undefined,
           })}
           ref={dimRef}
         />
       )}
       <div
         className={css.mainOffset({
-          androidAndIsNotTop: android && !props.isTop ? true : undefined,
+          androidAndIsNotTop:
+            android && !covered && !props.isTop ? true : undefined,
         })}
       >
         <div
-          className={css.main({
-            android: android ? true : undefined,
-            androidAndIsNavbarVisible:
-              android && isNavbarVisible ? true : undefined,
-            androidAndIsRoot: android && props.isRoot ? true : undefined,
-            cupertinoAndIsNavbarVisible:
-              cupertino && isNavbarVisible ? true : undefined,
-            cupertinoAndIsPresent:
-              cupertino && props.isPresent ? true : undefined,
-          })}
+          className={[
+            css.main({
+              android: android && !transitioned ? true : undefined,
+              androidAndIsNavbarVisible:
+                android && isNavbarVisible ? true : undefined,
+              androidAndIsRoot: android && props.isRoot ? true : undefined,
+              androidAndIsPresent:
+                android && !transitioned && props.isPresent ? true : undefined,
+              cupertinoAndIsNavbarVisible:
+                cupertino && isNavbarVisible ? true : undefined,
+              cupertinoAndIsPresent:
+                cupertino && !transitioned && props.isPresent
+                  ? true
+                  : undefined,
+            }),
+            ...(transitioned ? [css.mainTransition] : []),
+          ].join(' ')}
+          ref={mainRef}
         >
           {isNavbarVisible && (
             <Navbar
@@ -172,39 +376,56 @@ const Card: React.FC<ICardProps> = (props) => {
             />
           )}
           <div
-            className={css.frameOffset({
-              cupertinoAndIsNotPresent:
-                cupertino && !props.isPresent ? true : undefined,
-              cupertinoAndIsNotTop:
-                cupertino && !props.isTop ? true : undefined,
-            })}
+            className={[
+              css.frameOffset({
+                cupertinoAndIsNotPresent:
+                  cupertino && !props.isPresent ? true : undefined,
+                cupertinoAndIsNotTop:
+                  cupertino && !covered && !props.isTop ? true : undefined,
+              }),
+              ...(covered
+                ? [
+                    css.frameOffsetTransition({
+                      isNotTop: !props.isTop ? true : undefined,
+                    }),
+                  ]
+                : []),
+            ].join(' ')}
             ref={props.isBeforeTop ? props.beforeTopFrameOffsetRef : undefined}
           >
             <div
               className={css.frame({
                 cupertino: cupertino ? true : undefined,
                 cupertinoAndIsNotRoot:
-                  cupertino && !props.isRoot ? true : undefined,
+                  cupertino && !transitioned && !props.isRoot
+                    ? true
+                    : undefined,
                 cupertinoAndIsPresent:
                   cupertino && props.isPresent ? true : undefined,
                 cupertinoAndIsNotPresent:
-                  cupertino && !props.isPresent ? true : undefined,
+                  cupertino && !transitioned && !props.isPresent
+                    ? true
+                    : undefined,
               })}
               ref={frameRef}
             >
               {props.children}
             </div>
           </div>
-          {cupertino && !props.isRoot && !props.isPresent && !popped && (
-            <div
-              className={css.edge({
-                cupertinoAndIsNavbarVisible:
-                  cupertino && isNavbarVisible ? true : undefined,
-                isNavbarVisible: isNavbarVisible ? true : undefined,
-              })}
-              ref={edgeRef}
-            />
-          )}
+          {props.gesture.enabled &&
+            !props.isRoot &&
+            !props.isPresent &&
+            !popped && (
+              <div
+                className={css.edge({
+                  isNavbarVisible: isNavbarVisible ? true : undefined,
+                })}
+                style={assignInlineVars({
+                  [css.edgeWidth]: props.gesture.edgeWidth,
+                })}
+                ref={edgeRef}
+              />
+            )}
         </div>
       </div>
     </div>
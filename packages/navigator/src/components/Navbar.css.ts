@@ -30,6 +30,12 @@ export const container = recipe({
         },
       },
     },
+    isSheet: {
+      true: {
+        position: 'relative',
+        padding: 0,
+      },
+    },
   },
 })
 
@@ -63,7 +69,7 @@ export const flex = style({
 })
 
 export const left = style({
-  padding: '0 0.5rem',
+  padding: `0 ${vars.navbar.padding}`,
   display: 'flex',
   alignItems: 'center',
   height: '100%',
@@ -94,7 +100,7 @@ export const backButton = style({
 
 export const right = recipe({
   base: {
-    padding: '0 0.5rem',
+    padding: `0 ${vars.navbar.padding}`,
     display: 'flex',
     alignItems: 'center',
     height: '100%',
@@ -106,10 +112,11 @@ export const right = recipe({
     },
   },
   variants: {
-    android: {
-      true: {
-        padding: '0 0.5rem 0 0',
+    titleAlign: {
+      left: {
+        paddingLeft: 0,
       },
+      center: {},
     },
   },
 })
@@ -142,10 +149,11 @@ export const center = recipe({
     color: vars.navbar.center.textColor,
   },
   variants: {
-    android: {
-      true: {
-        paddingRight: '1rem',
+    titleAlign: {
+      left: {
+        paddingRight: calc(vars.navbar.padding).add('0.5rem').toString(),
       },
+      center: {},
     },
   },
 })
@@ -154,30 +162,21 @@ export const centerMain = recipe({
   base: {
     display: 'block',
     width: vars.navbar.center.mainWidth,
+    fontFamily: vars.navbar.center.fontFamily,
+    fontSize: vars.navbar.center.fontSize,
+    fontWeight: vars.navbar.center.fontWeight,
   },
   variants: {
-    android: {
-      true: {
+    titleAlign: {
+      left: {
         justifyContent: 'flex-start',
-        paddingLeft: '1rem',
-        fontSize: '1.1875rem',
+        paddingLeft: calc(vars.navbar.padding).add('0.5rem').toString(),
         lineHeight: '1.5',
-        fontWeight: 'bold',
         width: '100%',
         boxSizing: 'border-box',
       },
-    },
-    androidAndIsLeft: {
-      true: {
-        paddingLeft: '0.375rem',
-      },
-    },
-    cupertino: {
-      true: {
-        fontFamily: '-apple-system, BlinkMacSystemFont',
+      center: {
         textAlign: 'center',
-        fontWeight: 600,
-        fontSize: '1rem',
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
@@ -188,6 +187,11 @@ export const centerMain = recipe({
         transform: 'translate(-50%)',
       },
     },
+    titleAlignLeftAndIsLeft: {
+      true: {
+        paddingLeft: '0.375rem',
+      },
+    },
   },
 })
 
@@ -214,8 +218,9 @@ export const centerMainEdge = recipe({
     width: vars.navbar.center.mainWidth,
   },
   variants: {
-    cupertino: {
-      true: {
+    titleAlign: {
+      left: {},
+      center: {
         display: 'block',
       },
     },
@@ -223,6 +228,6 @@ export const centerMainEdge = recipe({
 })
 
 export const svgIcon = style({
-  width: '1.5rem',
-  height: '1.5rem',
+  width: vars.navbar.iconSize,
+  height: vars.navbar.iconSize,
 })
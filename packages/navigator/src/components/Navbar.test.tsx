@@ -0,0 +1,56 @@
+import { act, fireEvent, render, within } from '@testing-library/react'
+import React from 'react'
+
+import { flush, renderNavigator } from '../_test/renderNavigator'
+import { IconBack, IconClose } from '../assets'
+import ScreenHelmet from '../ScreenHelmet'
+
+function getIconPath(icon: React.ReactElement) {
+  return render(icon).container.querySelector('path')!.getAttribute('d')
+}
+
+function renderPushed(theme: 'Android' | 'Cupertino', present: boolean) {
+  const rendered = renderNavigator({
+    screens: {
+      '/': () => null,
+      '/threads/:threadId': () => <ScreenHelmet title="Thread" />,
+    },
+    theme,
+  })
+
+  act(() => {
+    rendered.navigator().push('/threads/1', { present })
+  })
+
+  const backButton = within(rendered.container).getByLabelText('Go back')
+
+  return {
+    ...rendered,
+    backButton,
+    iconPath: backButton.querySelector('path')!.getAttribute('d'),
+  }
+}
+
+describe('Navbar', () => {
+  test('shows the close icon on presented screens of both themes', () => {
+    const closePath = getIconPath(<IconClose />)
+
+    expect(renderPushed('Android', true).iconPath).toBe(closePath)
+    expect(renderPushed('Cupertino', true).iconPath).toBe(closePath)
+  })
+
+  test('shows the back icon on pushed screens', () => {
+    expect(renderPushed('Android', false).iconPath).toBe(
+      getIconPath(<IconBack />)
+    )
+  })
+
+  test('pops the presented screen with the close icon', async () => {
+    const { backButton, getStack } = renderPushed('Android', true)
+
+    fireEvent.click(backButton)
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+  })
+})
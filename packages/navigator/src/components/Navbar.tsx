@@ -5,15 +5,16 @@ import { assignInlineVars } from '@vanilla-extract/dynamic'
 import { IconBack, IconClose } from '../assets'
 import { vars } from '../Navigator.css'
 import { useStoreSelector } from '../store'
-import { INavigatorTheme } from '../types'
+import { INavigatorThemeDefinition } from '../types'
 import { useNavigator } from '../useNavigator'
 import * as css from './Navbar.css'
 
 interface INavbarProps {
   screenInstanceId: string
-  theme: INavigatorTheme
+  theme: INavigatorThemeDefinition
   isRoot: boolean
   isPresent: boolean
+  isSheet?: boolean
   backButtonAriaLabel: string
   closeButtonAriaLabel: string
   onTopClick: () => void
@@ -22,8 +23,8 @@ interface INavbarProps {
 const Navbar: React.FC<INavbarProps> = (props) => {
   const { pop } = useNavigator()
 
-  const android = props.theme === 'Android'
-  const cupertino = props.theme === 'Cupertino'
+  const { titleAlign } = props.theme
+  const cupertino = props.theme.layout === 'Cupertino'
 
   const screenInstanceOptions = useStoreSelector(
     (state) => state.screenInstanceOptions
@@ -58,15 +59,18 @@ const Navbar: React.FC<INavbarProps> = (props) => {
       setCenterMainWidth(screenWidth - 2 * sideMargin)
     }
 
-    if (props.theme === 'Cupertino') {
-      onResize()
-      window.addEventListener('resize', onResize)
+    if (titleAlign !== 'center') {
+      setCenterMainWidth(undefined)
+      return
+    }
 
-      return () => {
-        window.removeEventListener('resize', onResize)
-      }
+    onResize()
+    window.addEventListener('resize', onResize)
+
+    return () => {
+      window.removeEventListener('resize', onResize)
     }
-  }, [screenInstanceOption])
+  }, [screenInstanceOption, titleAlign])
 
   const onBackClick = () => {
     pop()
@@ -113,7 +117,7 @@ const Navbar: React.FC<INavbarProps> = (props) => {
         aria-label={props.backButtonAriaLabel}
         onClick={onBackClick}
       >
-        {props.theme === 'Cupertino' && props.isPresent ? (
+        {props.isPresent || props.isSheet ? (
           <IconClose className={css.svgIcon} />
         ) : (
           <IconBack className={css.svgIcon} />
@@ -135,6 +139,7 @@ const Navbar: React.FC<INavbarProps> = (props) => {
       className={css.container({
         cupertinoAndIsNotPresent:
           cupertino && !props.isPresent ? true : undefined,
+        isSheet: props.isSheet ? true : undefined,
       })}
       ref={navbarRef}
       style={assignInlineVars({
@@ -153,17 +158,12 @@ const Navbar: React.FC<INavbarProps> = (props) => {
             {backButton}
             {screenInstanceOption?.navbar.appendLeft}
           </div>
-          <div
-            className={css.center({
-              android: android ? true : undefined,
-            })}
-            ref={centerRef}
-          >
+          <div className={css.center({ titleAlign })} ref={centerRef}>
             <div
               className={css.centerMain({
-                android: android ? true : undefined,
-                androidAndIsLeft: android && isLeft ? true : undefined,
-                cupertino: cupertino ? true : undefined,
+                titleAlign,
+                titleAlignLeftAndIsLeft:
+                  titleAlign === 'left' && isLeft ? true : undefined,
               })}
             >
               {typeof screenInstanceOption?.navbar.title === 'string' ? (
@@ -175,17 +175,11 @@ const Navbar: React.FC<INavbarProps> = (props) => {
               )}
             </div>
             <div
-              className={css.centerMainEdge({
-                cupertino: cupertino ? true : undefined,
-              })}
+              className={css.centerMainEdge({ titleAlign })}
               onClick={props.onTopClick}
             />
           </div>
-          <div
-            className={css.right({
-              android: android ? true : undefined,
-            })}
-          >
+          <div className={css.right({ titleAlign })}>
             {screenInstanceOption?.navbar.appendRight}
             {screenInstanceOption?.navbar.closeButtonLocation === 'right' &&
               closeButton}
@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react'
+
+import { NavigatorScopesProvider, useNavigatorScopes } from '../contexts'
+import { useNavigator } from '../useNavigator'
+
+/**
+ * Rendered by a nested navigator inside the contexts of its parent,
+ * so that `useNavigator({ scope })` can control the enclosing navigators
+ */
+const NavigatorScopes: React.FC = (props) => {
+  const parent = useNavigator()
+  const scopes = useNavigatorScopes()
+
+  const value = useMemo(
+    () => ({
+      parent,
+      root: scopes?.root ?? parent,
+    }),
+    [parent, scopes]
+  )
+
+  return (
+    <NavigatorScopesProvider value={value}>
+      {props.children}
+    </NavigatorScopesProvider>
+  )
+}
+
+export default NavigatorScopes
@@ -0,0 +1,59 @@
+import React, { useCallback, useMemo } from 'react'
+
+import {
+  ScreenInstanceProvider,
+  ScreenInstanceSetNavbarProvider,
+} from '../contexts'
+import { INavbarOptions, IScreen, useStoreActions } from '../store'
+
+interface IScreenInstanceProps {
+  screen: IScreen
+  screenInstanceId: string
+  as: string
+  isTop: boolean
+  isRoot: boolean
+}
+const ScreenInstance: React.FC<IScreenInstanceProps> = ({
+  screen,
+  screenInstanceId,
+  as,
+  isTop,
+  isRoot,
+}) => {
+  const { addScreenInstanceOption } = useStoreActions()
+
+  const setNavbar = useCallback(
+    (navbar: INavbarOptions) => {
+      addScreenInstanceOption({
+        screenInstanceId,
+        screenInstanceOption: {
+          navbar,
+        },
+      })
+    },
+    [addScreenInstanceOption, screenInstanceId]
+  )
+
+  const screenInstanceContext = useMemo(
+    () => ({
+      screenInstanceId,
+      as,
+      isTop,
+      isRoot,
+      path: screen.path,
+    }),
+    [screenInstanceId, as, isTop, isRoot, screen.path]
+  )
+
+  const { component: Component } = screen
+
+  return (
+    <ScreenInstanceProvider value={screenInstanceContext}>
+      <ScreenInstanceSetNavbarProvider value={setNavbar}>
+        {Component ? <Component /> : screen.children}
+      </ScreenInstanceSetNavbarProvider>
+    </ScreenInstanceProvider>
+  )
+}
+
+export default ScreenInstance
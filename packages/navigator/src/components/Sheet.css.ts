@@ -0,0 +1,99 @@
+import { style } from '@vanilla-extract/css'
+
+import { vars } from '../Navigator.css'
+import {
+  container_enterActive,
+  container_enterDone,
+  container_exitActive,
+  container_exitDone,
+} from './Card.css'
+
+export const dim = style({
+  backgroundColor: vars.dimBackgroundColor,
+  position: 'absolute',
+  top: 0,
+  left: 0,
+  width: '100%',
+  height: '100%',
+  opacity: 0,
+  willChange: 'opacity',
+  transition: `opacity ${vars.animationDuration}`,
+  selectors: {
+    [`${container_enterActive} &`]: {
+      opacity: vars.dimOpacity,
+    },
+    [`${container_enterDone} &`]: {
+      opacity: vars.dimOpacity,
+    },
+    [`${container_exitActive} &`]: {
+      opacity: 0,
+    },
+    [`${container_exitDone} &`]: {
+      opacity: 0,
+    },
+  },
+})
+
+export const sheetOffset = style({
+  position: 'absolute',
+  left: 0,
+  bottom: 0,
+  width: '100%',
+  transform: 'translateY(100%)',
+  willChange: 'transform',
+  transition: `transform ${vars.animationDuration}`,
+  selectors: {
+    [`${container_enterActive} &`]: {
+      transform: 'translateY(0)',
+    },
+    [`${container_enterDone} &`]: {
+      transform: 'translateY(0)',
+    },
+    [`${container_exitActive} &`]: {
+      transform: 'translateY(100%)',
+    },
+    [`${container_exitDone} &`]: {
+      transform: 'translateY(100%)',
+    },
+  },
+})
+
+export const sheet = style({
+  display: 'flex',
+  flexDirection: 'column',
+  width: '100%',
+  height: '100%',
+  borderTopLeftRadius: '0.75rem',
+  borderTopRightRadius: '0.75rem',
+  overflow: 'hidden',
+  backgroundColor: vars.backgroundColor,
+  willChange: 'transform',
+  transition: `transform ${vars.animationDuration}`,
+})
+
+export const header = style({
+  flex: 'none',
+  touchAction: 'none',
+})
+
+export const handle = style({
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  height: '1.25rem',
+  '::after': {
+    content: '""',
+    display: 'block',
+    width: '2.25rem',
+    height: '0.3125rem',
+    borderRadius: '0.15625rem',
+    backgroundColor: vars.navbar.borderColor,
+  },
+})
+
+export const frame = style({
+  flex: 1,
+  overflowY: 'scroll',
+  scrollBehavior: 'smooth',
+  WebkitOverflowScrolling: 'touch',
+})
@@ -0,0 +1,135 @@
+import { act, fireEvent } from '@testing-library/react'
+
+import { flush, renderNavigator } from '../_test/renderNavigator'
+
+const CONTAINER_HEIGHT = 1000
+
+const screens = {
+  '/': () => null,
+  '/filters': () => null,
+}
+
+function renderSheet(beforeEach?: () => boolean) {
+  const rendered = renderNavigator({ screens, beforeEach })
+
+  act(() => {
+    rendered.navigator().push('/filters', { presentation: 'sheet' })
+  })
+
+  const find = (name: string) =>
+    rendered.container.querySelector<HTMLElement>(`[class^="Sheet_${name}_"]`)!
+
+  /**
+   * Drag the header from `from` to `to` (client y) in `duration` ms
+   */
+  const drag = (from: number, to: number, duration = 500) => {
+    const header = find('header')
+    const now = Date.now()
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now)
+
+    fireEvent.touchStart(header, { touches: [{ clientY: from }] })
+    fireEvent.touchMove(header, { touches: [{ clientY: to }] })
+    dateNow.mockReturnValue(now + duration)
+    fireEvent.touchEnd(header)
+
+    dateNow.mockRestore()
+  }
+
+  return {
+    ...rendered,
+    drag,
+    dim: () => find('dim'),
+    sheet: () => find('sheet'),
+  }
+}
+
+describe('Sheet', () => {
+  beforeEach(() => {
+    Object.defineProperty(HTMLElement.prototype, 'clientHeight', {
+      configurable: true,
+      get: () => CONTAINER_HEIGHT,
+    })
+    jest
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((callback) => {
+        callback(0)
+        return 0
+      })
+  })
+
+  afterEach(() => {
+    delete (HTMLElement.prototype as { clientHeight?: number }).clientHeight
+    jest.restoreAllMocks()
+  })
+
+  test('rests at the lowest detent first', () => {
+    const { sheet } = renderSheet()
+
+    expect(sheet().style.transform).toBe(
+      `translateY(${((0.9 - 0.5) / 0.9) * 100}%)`
+    )
+  })
+
+  test('settles to the nearest detent after dragged', () => {
+    const { drag, sheet, dim, getStack } = renderSheet()
+
+    drag(600, 250)
+
+    expect(sheet().style.transform).toBe('translateY(0%)')
+    expect(sheet().style.transition).toBe('')
+    expect(dim().style.cssText).toBe('')
+    expect(getStack()).toEqual(['/', '/filters'])
+  })
+
+  test('is not dragged above the highest detent', () => {
+    const { drag, sheet } = renderSheet()
+
+    drag(600, 0)
+
+    expect(sheet().style.transform).toBe('translateY(0%)')
+  })
+
+  test('is dismissed when dragged below half the lowest detent', async () => {
+    const { drag, dim, sheet, getStack } = renderSheet()
+
+    drag(500, 800)
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+    expect(dim().style.cssText).toBe('')
+    expect(sheet().style.transition).toBe('')
+  })
+
+  test('is dismissed when flicked down', async () => {
+    const { drag, getStack } = renderSheet()
+
+    drag(500, 600, 50)
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+  })
+
+  test('settles back when the guards keep it', async () => {
+    const beforeEach = jest.fn(() => true)
+    const { drag, dim, sheet, getStack } = renderSheet(beforeEach)
+
+    beforeEach.mockReturnValue(false)
+    drag(500, 800)
+    await flush()
+
+    expect(getStack()).toEqual(['/', '/filters'])
+    expect(sheet().style.transform).toBe(
+      `translateY(${((0.9 - 0.5) / 0.9) * 100}%)`
+    )
+    expect(dim().style.cssText).toBe('')
+  })
+
+  test('is dismissed by a click on the dim', async () => {
+    const { dim, getStack } = renderSheet()
+
+    fireEvent.click(dim())
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+  })
+})
@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import zenscroll from 'zenscroll'
+
+import { useScrollSnapshot } from '../hooks'
+import { vars } from '../Navigator.css'
+import { ISheetOptions, useStore, useStoreSelector } from '../store'
+import { INavigatorThemeDefinition } from '../types'
+import useGuardedPop from './_lib/useGuardedPop'
+import { container } from './Card.css'
+import Navbar from './Navbar'
+import * as css from './Sheet.css'
+
+const FRAME_SCROLL_KEY = '@frame'
+
+interface ISheetProps {
+  theme: INavigatorThemeDefinition
+  nodeRef: React.RefObject<HTMLDivElement>
+  screenInstanceId: string
+  sheet: ISheetOptions
+  isTop: boolean
+  isMounted: boolean
+  scrollRestoration: boolean
+  backButtonAriaLabel: string
+  closeButtonAriaLabel: string
+}
+const Sheet: React.FC<ISheetProps> = (props) => {
+  const guardedPop = useGuardedPop()
+
+  const { detents } = props.sheet
+  const maxDetent = detents[detents.length - 1]
+
+  const [detentIndex, setDetentIndex] = useState(0)
+
+  const store = useStore()
+  const { screenInstanceOptions } = useStoreSelector((state) => ({
+    screenInstanceOptions: state.screenInstanceOptions,
+  }))
+  const dimRef = useRef<HTMLDivElement>(null)
+  const sheetRef = useRef<HTMLDivElement>(null)
+  const headerRef = useRef<HTMLDivElement>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+
+  useScrollSnapshot({
+    ref: frameRef,
+    screenInstanceId: props.screenInstanceId,
+    key: FRAME_SCROLL_KEY,
+    isTop: props.isTop,
+    isMounted: props.isMounted,
+    disabled: !props.scrollRestoration,
+  })
+
+  /**
+   * Offset of the sheet resting at `detent` (percentage of the sheet height)
+   */
+  const getOffset = (detent: number) => ((maxDetent - detent) / maxDetent) * 100
+
+  const dismiss = useCallback(
+    (onCancel: () => void, onPop?: () => void) => {
+      guardedPop({
+        screenInstanceId: props.screenInstanceId,
+        onPop,
+        onCancel,
+      })
+    },
+    [guardedPop, props.screenInstanceId]
+  )
+
+  /**
+   * Read while dragging, so that the listeners stay attached
+   * while the sheet settles to another detent
+   */
+  const dragRef = useRef({ detents, detentIndex, getOffset, dismiss })
+  dragRef.current = { detents, detentIndex, getOffset, dismiss }
+
+  useEffect(() => {
+    const $dim = dimRef.current
+    const $sheet = sheetRef.current
+    const $header = headerRef.current
+    const $container = props.nodeRef.current
+
+    if (!$dim || !$sheet || !$header || !$container) {
+      return
+    }
+
+    let y0: number | null = null
+    let t0: number | null = null
+    let y: number | null = null
+
+    const resetState = () => {
+      y0 = null
+      t0 = null
+      y = null
+    }
+
+    const settle = (nextDetentIndex: number) => {
+      const { detents, getOffset } = dragRef.current
+
+      requestAnimationFrame(() => {
+        $dim.style.cssText = ''
+        $sheet.style.transition = ''
+        $sheet.style.transform = `translateY(${getOffset(
+          detents[nextDetentIndex]
+        )}%)`
+      })
+      setDetentIndex(nextDetentIndex)
+    }
+
+    const onTouchStart = (e: TouchEvent) => {
+      y0 = y = e.touches[0].clientY
+      t0 = Date.now()
+    }
+
+    const onTouchMove = (e: TouchEvent) => {
+      if (y0 === null) {
+        return resetState()
+      }
+
+      y = e.touches[0].clientY
+
+      const { detents, detentIndex, getOffset } = dragRef.current
+      const maxDetent = detents[detents.length - 1]
+
+      /**
+       * Not draggable above the highest detent
+       */
+      const dy = Math.max(
+        y - y0,
+        -1 * (maxDetent - detents[detentIndex]) * $container.clientHeight
+      )
+      const height = detents[detentIndex] * $container.clientHeight - dy
+      const p = Math.min(height / (detents[0] * $container.clientHeight), 1)
+
+      requestAnimationFrame(() => {
+        $dim.style.opacity = `calc(${Math.max(p, 0)} * ${vars.dimOpacity})`
+        $dim.style.transition = 'opacity 0s'
+        $sheet.style.transition = 'transform 0s'
+        $sheet.style.transform = `translateY(calc(${getOffset(
+          detents[detentIndex]
+        )}% + ${dy}px))`
+      })
+    }
+
+    const onTouchEnd = () => {
+      if (y0 === null || t0 === null || y === null) {
+        return resetState()
+      }
+
+      const { detents, detentIndex, dismiss } = dragRef.current
+
+      const v = (y - y0) / (Date.now() - t0)
+      const height = detents[detentIndex] * $container.clientHeight - (y - y0)
+
+      resetState()
+
+      if (v > 1 || height < (detents[0] * $container.clientHeight) / 2) {
+        /**
+         * Release the dim from the drag, so that it fades out with the sheet
+         */
+        return dismiss(
+          () => settle(detentIndex),
+          () => {
+            requestAnimationFrame(() => {
+              $dim.style.cssText = ''
+              $sheet.style.transition = ''
+            })
+          }
+        )
+      }
+
+      const nearestDetentIndex = detents.reduce(
+        (nearest, detent, idx) =>
+          Math.abs(detent * $container.clientHeight - height) <
+          Math.abs(detents[nearest] * $container.clientHeight - height)
+            ? idx
+            : nearest,
+        0
+      )
+
+      settle(nearestDetentIndex)
+    }
+
+    $header.addEventListener('touchstart', onTouchStart, { passive: true })
+    $header.addEventListener('touchmove', onTouchMove, { passive: true })
+    $header.addEventListener('touchend', onTouchEnd, { passive: true })
+
+    return () => {
+      $header.removeEventListener('touchstart', onTouchStart)
+      $header.removeEventListener('touchmove', onTouchMove)
+      $header.removeEventListener('touchend', onTouchEnd)
+    }
+  }, [])
+
+  const onDimClick = () => {
+    dismiss(() => {})
+  }
+
+  const onTopClick = useCallback(() => {
+    const $frame = frameRef.current
+
+    const screenInstanceOption =
+      store.getState().screenInstanceOptions[props.screenInstanceId]
+
+    if (!screenInstanceOption?.navbar.disableScrollToTop && $frame) {
+      const scroller = zenscroll.createScroller($frame)
+      scroller.toY(0)
+    }
+
+    screenInstanceOption?.navbar.onTopClick?.()
+  }, [])
+
+  const isNavbarVisible =
+    screenInstanceOptions[props.screenInstanceId]?.navbar.visible ?? false
+
+  return (
+    <div ref={props.nodeRef} className={container}>
+      <div className={css.dim} ref={dimRef} onClick={onDimClick} />
+      <div
+        className={css.sheetOffset}
+        style={{
+          height: `${maxDetent * 100}%`,
+        }}
+      >
+        <div
+          className={css.sheet}
+          ref={sheetRef}
+          style={{
+            transform: `translateY(${getOffset(detents[detentIndex])}%)`,
+          }}
+        >
+          <div className={css.header} ref={headerRef}>
+            <div className={css.handle} />
+            {isNavbarVisible && (
+              <Navbar
+                screenInstanceId={props.screenInstanceId}
+                theme={props.theme}
+                isRoot={false}
+                isPresent
+                isSheet
+                backButtonAriaLabel={props.backButtonAriaLabel}
+                closeButtonAriaLabel={props.closeButtonAriaLabel}
+                onTopClick={onTopClick}
+              />
+            )}
+          </div>
+          <div className={css.frame} ref={frameRef}>
+            {props.children}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Sheet
@@ -1,8 +1,29 @@
-import React, { useRef } from 'react'
+import React, { useMemo, useRef } from 'react'
 import { CSSTransition } from 'react-transition-group'
 
-import { useStoreSelector } from '../store'
-import { INavigatorTheme } from '../types'
+import {
+  LocationKeyStackProvider,
+  SharedElementRegistryProvider,
+  TransitionEmitterProvider,
+} from '../contexts'
+import {
+  createSharedElementRegistry,
+  createTransitionEmitter,
+  makeTransitionEvent,
+  resolveGesture,
+  resolveTransition,
+} from '../helpers'
+import Screen, { createScreen } from '../Screen'
+import { GlobalState, useStore, useStoreSelector } from '../store'
+import {
+  IGesture,
+  IInitialStackResolver,
+  INavigatorBridge,
+  INavigatorThemeDefinition,
+  IStackStorage,
+  ITransition,
+  ITransitionEvent,
+} from '../types'
 import NodeRef from './_lib/NodeRef'
 import Card from './Card'
 import {
@@ -11,105 +32,331 @@ import {
   container_exitActive,
   container_exitDone,
 } from './Card.css'
+import ScreenInstance from './ScreenInstance'
+import Sheet from './Sheet'
+import useAfterEachEffect from './Stack.useAfterEachEffect'
+import useBridgeEffect from './Stack.useBridgeEffect'
 import useDepthChangeEffect from './Stack.useDepthChangeEffect'
 import useInitialize from './Stack.useInitialize'
 import useInitializeHistoryPopEffect from './Stack.useInitializeHistoryPopEffect'
 import { useInitializeHistoryPushEffect } from './Stack.useInitializeHistoryPushEffect'
 import { useInitializeHistoryReplaceEffect } from './Stack.useInitializeHistoryReplaceEffect'
+import usePersistStack from './Stack.usePersistStack'
+
+function getStaticScreens(children: React.ReactNode) {
+  return React.Children.toArray(children).reduce<GlobalState['screens']>(
+    (screens, child) => {
+      const screen =
+        React.isValidElement(child) && child.type === Screen
+          ? createScreen(child.props)
+          : null
 
-declare global {
-  interface Window {
-    __KARROTFRAME__?: boolean
-  }
+      return screen ? { ...screens, [screen.id]: screen } : screens
+    },
+    {}
+  )
 }
 
 interface IStackProps {
-  theme: INavigatorTheme
+  theme: INavigatorThemeDefinition
   animationDuration: number
+  transitions: { [name: string]: ITransition }
+  gesture?: IGesture
   backButtonAriaLabel: string
   closeButtonAriaLabel: string
+  stackStorage: IStackStorage | null
+  stackSnapshotKey: string
+  initialStack?: IInitialStackResolver
+  maxMountedScreens: number
+  bridge?: INavigatorBridge
   onClose?: () => void
   onDepthChange?: (depth: number) => void
+  onTransitionStart?: (e: ITransitionEvent) => void
+  onTransitionEnd?: (e: ITransitionEvent) => void
+  onSwipeBackStart?: (e: ITransitionEvent) => void
+  onSwipeBackCancel?: (e: ITransitionEvent) => void
+  onSwipeBackComplete?: (e: ITransitionEvent) => void
 }
 const Stack: React.FC<IStackProps> = (props) => {
   const beforeTopFrameOffsetRef = useRef<HTMLDivElement>(null)
+  const locationKeyStackRef = useRef<string[]>([])
+  const transitionEmitter = useMemo(() => createTransitionEmitter(), [])
+  const sharedElementRegistry = useMemo(() => createSharedElementRegistry(), [])
 
-  const { screens, screenInstances, screenInstancePtr } = useStoreSelector(
-    (state) => ({
-      screens: state.screens,
-      screenInstances: state.screenInstances,
-      screenInstancePtr: state.screenInstancePtr,
-    })
-  )
+  /**
+   * Transition events are made when transitions start, so that
+   * `onTransitionEnd` tells the same screens even if the stack changed since
+   */
+  const transitionEventsRef = useRef<{
+    [screenInstanceId: string]: ITransitionEvent | undefined
+  }>({})
+
+  const store = useStore()
+
+  const stack = useStoreSelector((state) => ({
+    screens: state.screens,
+    screenInstances: state.screenInstances,
+    screenInstancePtr: state.screenInstancePtr,
+  }))
+
+  /**
+   * Before `<Screen />`s are registered (e.g. on the server),
+   * screens are resolved from the children
+   */
+  const screens =
+    stack.screenInstancePtr === -1
+      ? { ...getStaticScreens(props.children), ...stack.screens }
+      : stack.screens
 
   useDepthChangeEffect(props.onDepthChange)
+  useAfterEachEffect()
+  useBridgeEffect({
+    bridge: props.bridge,
+    onClose: props.onClose,
+  })
 
-  useInitialize()
+  const entryScreenInstance = useInitialize({
+    screens,
+    stackStorage: props.stackStorage,
+    stackSnapshotKey: props.stackSnapshotKey,
+    initialStack: props.initialStack,
+    locationKeyStackRef,
+  })
   useInitializeHistoryPushEffect()
   useInitializeHistoryReplaceEffect()
-  useInitializeHistoryPopEffect()
+  useInitializeHistoryPopEffect(locationKeyStackRef)
+  usePersistStack({
+    stackStorage: props.stackStorage,
+    stackSnapshotKey: props.stackSnapshotKey,
+    locationKeyStackRef,
+  })
+
+  /**
+   * Before initialized (e.g. on the server), only the entry screen is rendered
+   */
+  const { screenInstances, screenInstancePtr } =
+    stack.screenInstancePtr === -1 && entryScreenInstance
+      ? { screenInstances: [entryScreenInstance], screenInstancePtr: 0 }
+      : stack
 
   return (
-    <>
-      {screenInstances.map((screenInstance, screenInstanceIndex) => {
-        const isRoot = screenInstanceIndex === 0
-        const isTop = screenInstanceIndex === screenInstancePtr
-
-        const screen = screens[screenInstance.screenId]
-
-        if (!screen) {
-          return null
-        }
-
-        return (
-          <NodeRef<HTMLDivElement> key={screenInstanceIndex}>
-            {(nodeRef) => (
-              <CSSTransition
-                key={screenInstance.id}
-                nodeRef={nodeRef}
-                timeout={props.animationDuration}
-                in={screenInstanceIndex <= screenInstancePtr}
-                classNames={{
-                  enterActive: container_enterActive,
-                  enterDone: container_enterDone,
-                  exitActive: container_exitActive,
-                  exitDone: container_exitDone,
-                }}
-                unmountOnExit
-              >
-                <Card
-                  nodeRef={nodeRef}
-                  beforeTopFrameOffsetRef={beforeTopFrameOffsetRef}
-                  theme={props.theme}
-                  screenPath={screen.path}
-                  screenInstanceId={screenInstance.id}
-                  isRoot={screenInstanceIndex === 0}
-                  isTop={
-                    screenInstanceIndex >= screenInstancePtr ||
-                    (props.theme === 'Cupertino' &&
-                      screenInstances.length > screenInstanceIndex + 1 &&
-                      screenInstances[screenInstanceIndex + 1].present)
-                  }
-                  isBeforeTop={screenInstanceIndex === screenInstancePtr - 1}
-                  isPresent={screenInstance.present}
-                  backButtonAriaLabel={props.backButtonAriaLabel}
-                  closeButtonAriaLabel={props.closeButtonAriaLabel}
-                  onClose={props.onClose}
-                >
-                  <screen.Component
-                    screenInstanceId={screenInstance.id}
-                    as={screenInstance.as}
-                    isTop={isTop}
-                    isRoot={isRoot}
-                  />
-                </Card>
-              </CSSTransition>
-            )}
-          </NodeRef>
-        )
-      })}
-      {props.children}
-    </>
+    <LocationKeyStackProvider value={locationKeyStackRef}>
+      <TransitionEmitterProvider value={transitionEmitter}>
+        <SharedElementRegistryProvider value={sharedElementRegistry}>
+          {screenInstances.map((screenInstance, screenInstanceIndex) => {
+            const isRoot = screenInstanceIndex === 0
+            const isTop = screenInstanceIndex === screenInstancePtr
+
+            const makeEvent = (direction: ITransitionEvent['direction']) => {
+              const { screenInstances, screenInstancePtr } = store.getState()
+
+              return direction === 'forward'
+                ? makeTransitionEvent({
+                    screenInstances,
+                    fromIndex: screenInstanceIndex - 1,
+                    toIndex: screenInstanceIndex,
+                    direction,
+                  })
+                : makeTransitionEvent({
+                    screenInstances,
+                    fromIndex: screenInstanceIndex,
+                    toIndex: screenInstancePtr,
+                    direction,
+                  })
+            }
+
+            const startTransition = (
+              direction: ITransitionEvent['direction']
+            ) => {
+              const e = makeEvent(direction)
+
+              transitionEventsRef.current[screenInstance.id] = e
+              props.onTransitionStart?.(e)
+            }
+
+            const endTransition = (
+              direction: ITransitionEvent['direction']
+            ) => {
+              const e =
+                transitionEventsRef.current[screenInstance.id] ??
+                makeEvent(direction)
+
+              delete transitionEventsRef.current[screenInstance.id]
+              props.onTransitionEnd?.(e)
+            }
+
+            const screen = screens[screenInstance.screenId]
+
+            if (!screen) {
+              return null
+            }
+
+            /**
+             * The screen right behind the top is always mounted
+             * because it is shown while swiping back
+             */
+            const isMounted =
+              screen.keepAlive ||
+              screenInstanceIndex >=
+                screenInstancePtr - Math.max(props.maxMountedScreens - 1, 1)
+
+            const transition =
+              resolveTransition(
+                screenInstance.transition ?? screen.transition,
+                props.transitions
+              ) ?? props.theme.transition
+
+            const coveringScreenInstance =
+              screenInstances[screenInstanceIndex + 1]
+            const coveringTransition = coveringScreenInstance
+              ? resolveTransition(
+                  coveringScreenInstance.transition ??
+                    screens[coveringScreenInstance.screenId]?.transition,
+                  props.transitions
+                ) ?? props.theme.transition
+              : undefined
+
+            const duration = transition?.duration ?? props.animationDuration
+
+            const children = isMounted && (
+              <ScreenInstance
+                screen={screen}
+                screenInstanceId={screenInstance.id}
+                as={screenInstance.as}
+                isTop={isTop}
+                isRoot={isRoot}
+              />
+            )
+
+            return (
+              <NodeRef<HTMLDivElement> key={screenInstance.id}>
+                {(nodeRef) => (
+                  <CSSTransition
+                    key={screenInstance.id}
+                    nodeRef={nodeRef}
+                    timeout={duration}
+                    in={screenInstanceIndex <= screenInstancePtr}
+                    classNames={{
+                      enterActive: container_enterActive,
+                      enterDone: container_enterDone,
+                      exitActive: container_exitActive,
+                      exitDone: container_exitDone,
+                    }}
+                    unmountOnExit
+                    onEnter={() => {
+                      transitionEmitter.emit(screenInstance.id, 'entering')
+                      startTransition('forward')
+
+                      const underneath =
+                        screenInstances[screenInstanceIndex - 1]
+
+                      if (underneath && nodeRef.current) {
+                        sharedElementRegistry.start({
+                          from: underneath.id,
+                          to: screenInstance.id,
+                          $container: nodeRef.current,
+                        })
+                        sharedElementRegistry.animateTo(1, duration)
+                      }
+                    }}
+                    onEntered={() => {
+                      transitionEmitter.emit(screenInstance.id, 'entered')
+                      endTransition('forward')
+                    }}
+                    onExit={() => {
+                      transitionEmitter.emit(screenInstance.id, 'exiting')
+                      startTransition('backward')
+
+                      const { screenInstances, screenInstancePtr } =
+                        store.getState()
+                      const underneath = screenInstances[screenInstancePtr]
+
+                      if (!underneath || !nodeRef.current) {
+                        return
+                      }
+
+                      /**
+                       * Already started by swipe back gesture
+                       */
+                      if (
+                        !sharedElementRegistry.isActive(
+                          screenInstance.id,
+                          underneath.id
+                        )
+                      ) {
+                        sharedElementRegistry.start({
+                          from: screenInstance.id,
+                          to: underneath.id,
+                          $container: nodeRef.current,
+                        })
+                      }
+                      sharedElementRegistry.animateTo(1, duration)
+                    }}
+                    onExited={() => {
+                      transitionEmitter.emit(screenInstance.id, 'exited')
+                      endTransition('backward')
+                    }}
+                  >
+                    {screenInstance.sheet ? (
+                      <Sheet
+                        nodeRef={nodeRef}
+                        theme={props.theme}
+                        screenInstanceId={screenInstance.id}
+                        sheet={screenInstance.sheet}
+                        isTop={isTop}
+                        isMounted={isMounted}
+                        scrollRestoration={screen.scrollRestoration}
+                        backButtonAriaLabel={props.backButtonAriaLabel}
+                        closeButtonAriaLabel={props.closeButtonAriaLabel}
+                      >
+                        {children}
+                      </Sheet>
+                    ) : (
+                      <Card
+                        nodeRef={nodeRef}
+                        beforeTopFrameOffsetRef={beforeTopFrameOffsetRef}
+                        theme={props.theme}
+                        screenPath={screen.path}
+                        screenInstanceId={screenInstance.id}
+                        isRoot={screenInstanceIndex === 0}
+                        isTop={
+                          screenInstanceIndex >= screenInstancePtr ||
+                          !!screenInstances[screenInstanceIndex + 1]?.present ||
+                          !!screenInstances[screenInstanceIndex + 1]?.sheet
+                        }
+                        isBeforeTop={
+                          screenInstanceIndex === screenInstancePtr - 1
+                        }
+                        isPresent={screenInstance.present}
+                        isMounted={isMounted}
+                        animationDuration={duration}
+                        transition={transition}
+                        coveringTransition={coveringTransition}
+                        scrollRestoration={screen.scrollRestoration}
+                        gesture={resolveGesture(
+                          props.theme,
+                          props.gesture,
+                          screen.gesture
+                        )}
+                        backButtonAriaLabel={props.backButtonAriaLabel}
+                        closeButtonAriaLabel={props.closeButtonAriaLabel}
+                        onClose={props.onClose}
+                        onSwipeBackStart={props.onSwipeBackStart}
+                        onSwipeBackCancel={props.onSwipeBackCancel}
+                        onSwipeBackComplete={props.onSwipeBackComplete}
+                      >
+                        {children}
+                      </Card>
+                    )}
+                  </CSSTransition>
+                )}
+              </NodeRef>
+            )
+          })}
+          {props.children}
+        </SharedElementRegistryProvider>
+      </TransitionEmitterProvider>
+    </LocationKeyStackProvider>
   )
 }
 
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react'
+
+import {
+  useHistory,
+  useNavigationGuards,
+  useNavigatorParamsConfig,
+} from '../contexts'
+import { omitNavigatorParamsFromPath } from '../helpers'
+import { useStore } from '../store'
+
+function useAfterEachEffect() {
+  const store = useStore()
+  const history = useHistory()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
+  const { afterEach } = useNavigationGuards()
+
+  const getPath = () =>
+    omitNavigatorParamsFromPath(
+      history.location.pathname + history.location.search,
+      navigatorParamsConfig
+    )
+
+  const fromRef = useRef(getPath())
+
+  useEffect(() => {
+    return store.listen((prevState, nextState) => {
+      if (
+        nextState.screenInstancePtr > -1 &&
+        prevState.screenInstancePtr !== nextState.screenInstancePtr
+      ) {
+        const to = getPath()
+
+        afterEach?.(to, fromRef.current)
+        fromRef.current = to
+      }
+    })
+  }, [afterEach, navigatorParamsConfig])
+}
+
+export default useAfterEachEffect
@@ -0,0 +1,110 @@
+import { act } from '@testing-library/react'
+
+import { flush, renderNavigator } from '../_test/renderNavigator'
+import { createMockNavigatorBridge } from '../helpers'
+
+const screens = {
+  '/': () => null,
+  '/threads/:threadId': () => null,
+}
+
+function renderWithBridge(
+  props: Partial<Parameters<typeof renderNavigator>[0]> = {}
+) {
+  const bridge = createMockNavigatorBridge()
+  const rendered = renderNavigator({ screens, bridge, ...props })
+
+  return { ...rendered, bridge }
+}
+
+describe('bridge', () => {
+  test('enables swipe back only while the root screen is on top', async () => {
+    const { bridge, navigator } = renderWithBridge()
+
+    expect(bridge.getState().swipeBackEnabled).toBe(true)
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    expect(bridge.getState().swipeBackEnabled).toBe(false)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(bridge.getState().swipeBackEnabled).toBe(true)
+  })
+
+  test('is told the depth of navigation', async () => {
+    const { bridge, navigator } = renderWithBridge()
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    act(() => {
+      navigator().push('/threads/2')
+    })
+    expect(bridge.getState().depth).toBe(2)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(bridge.getState().depth).toBe(1)
+  })
+
+  test('pops on the back key', () => {
+    const { bridge, navigator, history, getStack } = renderWithBridge()
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    act(() => {
+      bridge.pressBack()
+    })
+
+    expect(getStack()).toEqual(['/'])
+    expect(history.location.pathname).toBe('/')
+    expect(bridge.getState().closeRequestCount).toBe(0)
+  })
+
+  test('applies navigation guards to the back key', () => {
+    const beforeEach = jest.fn(() => true)
+    const { bridge, navigator, getStack } = renderWithBridge({ beforeEach })
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    beforeEach.mockReturnValue(false)
+    act(() => {
+      bridge.pressBack()
+    })
+
+    expect(getStack()).toEqual(['/', '/threads/1'])
+  })
+
+  test('requests close on the back key of the root screen', () => {
+    const onClose = jest.fn()
+    const { bridge, getStack } = renderWithBridge({ onClose })
+
+    act(() => {
+      bridge.pressBack()
+    })
+
+    expect(onClose).toHaveBeenCalledTimes(1)
+    expect(bridge.getState().closeRequestCount).toBe(1)
+    expect(getStack()).toEqual(['/'])
+  })
+
+  test('stops listening to the back key when unmounted', () => {
+    const onClose = jest.fn()
+    const { bridge, unmount } = renderWithBridge({ onClose })
+
+    unmount()
+    bridge.pressBack()
+
+    expect(onClose).not.toHaveBeenCalled()
+  })
+})
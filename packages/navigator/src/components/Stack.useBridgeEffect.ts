@@ -0,0 +1,73 @@
+import { useEffect } from 'react'
+
+import { useHistory } from '../contexts'
+import { GlobalState, useStore } from '../store'
+import { INavigatorBridge } from '../types'
+
+/**
+ * Native swipe back is only allowed while the root screen is on top
+ * without nested routes (e.g. of nested navigators)
+ * (before initialized, the pointer is `-1`)
+ */
+function canSwipeBack({ screenInstances, screenInstancePtr }: GlobalState) {
+  return (
+    screenInstancePtr <= 0 &&
+    (screenInstances[screenInstancePtr]?.nestedRouteCount ?? 0) === 0
+  )
+}
+
+function useBridgeEffect({
+  bridge,
+  onClose,
+}: {
+  bridge?: INavigatorBridge
+  onClose?: () => void
+}) {
+  const store = useStore()
+  const history = useHistory()
+
+  useEffect(() => {
+    if (!bridge) {
+      return
+    }
+
+    bridge.setSwipeBackEnabled(canSwipeBack(store.getState()))
+
+    return store.listen((prevState, nextState) => {
+      if (
+        nextState.screenInstancePtr > -1 &&
+        prevState.screenInstancePtr !== nextState.screenInstancePtr
+      ) {
+        bridge.onDepthChange?.(nextState.screenInstancePtr)
+      }
+      if (canSwipeBack(prevState) !== canSwipeBack(nextState)) {
+        bridge.setSwipeBackEnabled(canSwipeBack(nextState))
+      }
+    })
+  }, [bridge])
+
+  useEffect(() => {
+    if (!bridge) {
+      return
+    }
+
+    return bridge.onBackPressed(() => {
+      const { screenInstances, screenInstancePtr } = store.getState()
+
+      /**
+       * Popped through history so that navigation guards are applied
+       * the same way as the back button of browser
+       */
+      if (
+        screenInstancePtr > 0 ||
+        (screenInstances[screenInstancePtr]?.nestedRouteCount ?? 0) > 0
+      ) {
+        history.goBack()
+      } else {
+        onClose?.()
+      }
+    })
+  }, [bridge, history, onClose])
+}
+
+export default useBridgeEffect
@@ -0,0 +1,67 @@
+import { act } from '@testing-library/react'
+import React, { useEffect } from 'react'
+
+import { flush, renderNavigator } from '../_test/renderNavigator'
+
+describe('initialStack', () => {
+  test('builds the stack beneath a deep link and pops back through it', async () => {
+    const mount = jest.fn()
+    const Thread: React.FC = () => {
+      useEffect(mount, [])
+      return null
+    }
+    const beforeEach = jest.fn(() => true)
+
+    const { history, getStack } = renderNavigator({
+      screens: {
+        '/': () => null,
+        '/threads': () => null,
+        '/threads/:threadId': Thread,
+      },
+      initialEntries: ['/threads/1?tab=comments'],
+      initialStack: ({ pathname }) =>
+        pathname.startsWith('/threads/') ? ['/', '/threads?sort=new'] : [],
+      beforeEach,
+    })
+
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1'])
+    expect(history.length).toBe(3)
+    expect(history.location.search).toContain('tab=comments')
+
+    /**
+     * The entry screen rendered first is kept when moved up the stack
+     */
+    expect(mount).toHaveBeenCalledTimes(1)
+
+    act(() => {
+      history.goBack()
+    })
+    await flush()
+
+    expect(beforeEach).toHaveBeenLastCalledWith(
+      '/threads?sort=new',
+      '/threads/1?tab=comments'
+    )
+    expect(getStack()).toEqual(['/', '/threads'])
+
+    act(() => {
+      history.goBack()
+    })
+    await flush()
+
+    expect(beforeEach).toHaveBeenLastCalledWith('/', '/threads?sort=new')
+    expect(getStack()).toEqual(['/'])
+    expect(history.location.pathname).toBe('/')
+  })
+
+  test('is not resolved for an entry without ancestors', () => {
+    const { history, getStack } = renderNavigator({
+      screens: { '/': () => null, '/threads': () => null },
+      initialEntries: ['/threads'],
+      initialStack: () => [],
+    })
+
+    expect(getStack()).toEqual(['/threads'])
+    expect(history.length).toBe(1)
+  })
+})
@@ -1,59 +1,204 @@
-import { useEffect } from 'react'
-import { matchPath, useHistory, useLocation } from 'react-router-dom'
+import { MutableRefObject, useEffect, useState } from 'react'
+import { matchPath } from 'react-router-dom'
 
-import { NavigatorParamKeys } from '../helpers'
+import { useHistory, useLocation, useNavigatorParamsConfig } from '../contexts'
+import {
+  getLocationKey,
+  getNavigatorParams,
+  makeNavigatorLocation,
+  readStackSnapshot,
+} from '../helpers'
 import { useUniqueId } from '../hooks'
-import { useStore } from '../store'
+import {
+  GlobalState,
+  IScreenInstance,
+  useStore,
+  useStoreActions,
+} from '../store'
+import { IInitialStackResolver, IStackStorage } from '../types'
 import { usePush } from './Stack.usePush'
 
-function useInitialize() {
-  const { uid } = useUniqueId()
+function findScreen(screens: GlobalState['screens'], pathname: string) {
+  return Object.values(screens).find(
+    (screen) =>
+      screen && matchPath(pathname, { exact: true, path: screen.path })
+  )
+}
+
+function useInitialize({
+  screens,
+  stackStorage,
+  stackSnapshotKey,
+  initialStack,
+  locationKeyStackRef,
+}: {
+  /**
+   * Screens to find the entry screen in before `<Screen />`s are registered
+   */
+  screens: GlobalState['screens']
+  stackStorage: IStackStorage | null
+  stackSnapshotKey: string
+  initialStack?: IInitialStackResolver
+  locationKeyStackRef: MutableRefObject<string[]>
+}) {
+  const { uid, exclude } = useUniqueId()
   const location = useLocation()
   const history = useHistory()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
 
   const store = useStore()
+  const {
+    insertScreenInstance,
+    setScreenInstances,
+    setScreenInstancePtr,
+    setScreenInstanceSnapshots,
+  } = useStoreActions()
 
   const push = usePush()
 
+  /**
+   * The entry screen is rendered before initialized (e.g. on the server)
+   * and pushed with the same id after mounted, so that it is hydrated
+   * without mismatch or remount
+   */
+  const [entryScreenInstance] = useState<IScreenInstance | null>(() => {
+    const matchScreen = findScreen(screens, location.pathname)
+
+    return matchScreen
+      ? {
+          id: uid(),
+          screenId: matchScreen.id,
+          nestedRouteCount: 0,
+          present: false,
+          as: location.pathname,
+        }
+      : null
+  })
+
   useEffect(() => {
-    if (typeof window === 'undefined') {
+    const snapshot =
+      stackStorage && readStackSnapshot(stackStorage, stackSnapshotKey)
+    const locationKey = getLocationKey(location)
+
+    if (
+      snapshot &&
+      snapshot.locationKeyStack[snapshot.locationKeyStack.length - 1] ===
+        locationKey
+    ) {
+      const screenInstances = snapshot.screenInstances.filter(
+        (_, idx) => idx <= snapshot.screenInstancePtr
+      )
+
+      exclude(screenInstances.map((screenInstance) => screenInstance.id))
+      locationKeyStackRef.current = snapshot.locationKeyStack
+      setScreenInstanceSnapshots({
+        screenInstanceSnapshots: snapshot.screenInstanceSnapshots ?? {},
+      })
+      setScreenInstances({
+        screenInstances,
+        ptr: snapshot.screenInstancePtr,
+      })
+
       return
     }
-    if (window.__KARROTFRAME__) {
-      throw new Error('Only one Navigator is allowed in an app')
-    }
 
-    window.__KARROTFRAME__ = true
+    const { screens, screenInstances } = store.getState()
+    const entryScreenInstanceId = entryScreenInstance?.id ?? uid()
 
-    const searchParams = new URLSearchParams(location.search)
-    const screenInstanceId = uid()
-    searchParams.set(NavigatorParamKeys.SCREEN_INSTANCE_ID, screenInstanceId)
+    const ancestors =
+      screenInstances.length === 0 &&
+      initialStack &&
+      findScreen(screens, location.pathname)
+        ? initialStack({
+            pathname: location.pathname,
+            search: location.search,
+          })
+            .map((to) => new URL(to, /* dummy */ 'file://'))
+            .filter(({ pathname }) => findScreen(screens, pathname))
+        : []
 
-    const { screens, screenInstances } = store.getState()
+    if (ancestors.length > 0) {
+      const entries = [
+        ...ancestors,
+        new URL(location.pathname + location.search, /* dummy */ 'file://'),
+      ].map(({ pathname, searchParams }, idx, urls) => {
+        const screenInstanceId =
+          idx === urls.length - 1 ? entryScreenInstanceId : uid()
 
-    if (screenInstances.length === 0) {
-      const matchScreen = Object.values(screens).find(
-        (screen) =>
-          screen &&
-          matchPath(location.pathname, { exact: true, path: screen.path })
+        return {
+          screenInstanceId,
+          pathname,
+          nextLocation: makeNavigatorLocation(
+            { pathname, searchParams },
+            { screenInstanceId },
+            navigatorParamsConfig
+          ),
+        }
+      })
+
+      entries.forEach(({ screenInstanceId, pathname, nextLocation }, idx) => {
+        insertScreenInstance({
+          ptr: idx - 1,
+          screenInstance: {
+            id: screenInstanceId,
+            screenId: findScreen(screens, pathname)!.id,
+            present: false,
+            as: pathname,
+          },
+        })
+
+        if (idx === 0) {
+          history.replace(nextLocation)
+        } else {
+          history.push(nextLocation)
+        }
+      })
+
+      setScreenInstancePtr({ ptr: entries.length - 1 })
+      locationKeyStackRef.current = entries.map(({ nextLocation }) =>
+        getLocationKey(nextLocation)
       )
 
+      return
+    }
+
+    const screenInstanceId = entryScreenInstanceId
+
+    if (screenInstances.length === 0) {
+      const matchScreen = findScreen(screens, location.pathname)
+
       if (matchScreen) {
         push({
           screenId: matchScreen.id,
           screenInstanceId,
           present: false,
+          sheet: null,
+          transition: null,
           as: location.pathname,
         })
       }
     }
 
-    history.replace(`${location.pathname}?${searchParams.toString()}`)
-
-    return () => {
-      window.__KARROTFRAME__ = false
-    }
+    /**
+     * Read from history, as nested navigators (initialized earlier)
+     * may have written their params since rendered
+     */
+    history.replace(
+      makeNavigatorLocation(
+        {
+          pathname: history.location.pathname,
+          searchParams: new URLSearchParams(history.location.search),
+        },
+        {
+          ...getNavigatorParams(history.location, navigatorParamsConfig),
+          screenInstanceId,
+        },
+        navigatorParamsConfig
+      )
+    )
   }, [])
+
+  return entryScreenInstance
 }
 
 export default useInitialize
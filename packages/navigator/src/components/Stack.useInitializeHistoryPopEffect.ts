@@ -1,22 +1,51 @@
+import { MutableRefObject } from 'react'
 import { matchPath } from 'react-router-dom'
 
-import { getNavigatorParams } from '../helpers'
-import { useHistoryPopEffect } from '../hooks'
+import { useHistory, useNavigatorParamsConfig } from '../contexts'
+import {
+  getLocationKey,
+  getNavigatorParams,
+  goHistory,
+  hasNestedParams,
+  makeNavigatorLocation,
+} from '../helpers'
+import { useHistoryPopEffect, useNavigationGuard, useUniqueId } from '../hooks'
 import { IScreenInstance, useStore, useStoreActions } from '../store'
 import usePop from './Stack.usePop'
 import { usePush } from './Stack.usePush'
 
-function useInitializeHistoryPopEffect() {
+function useInitializeHistoryPopEffect(
+  locationKeyStackRef?: MutableRefObject<string[]>
+) {
   const store = useStore()
-  const { mapScreenInstance } = useStoreActions()
+  const history = useHistory()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
+  const { uid, exclude } = useUniqueId()
+  const {
+    mapScreenInstance,
+    setScreenInstances,
+    setTransacting,
+    setSkipNavigationGuard,
+  } = useStoreActions()
+  const guard = useNavigationGuard()
 
   const push = usePush()
   const pop = usePop()
 
   useHistoryPopEffect(
     {
-      backward(location) {
-        const { screens, screenInstances, screenInstancePtr } = store.getState()
+      backward(location, _, depth, prevLocation) {
+        const {
+          screens,
+          screenInstances,
+          screenInstancePtr,
+          transacting,
+          skipNavigationGuard,
+        } = store.getState()
+
+        if (transacting) {
+          return
+        }
 
         const matchScreen = Object.values(screens).find(
           (screen) =>
@@ -24,25 +53,135 @@ function useInitializeHistoryPopEffect() {
             matchPath(location.pathname, { exact: true, path: screen.path })
         )
 
-        const searchParams = new URLSearchParams(location.search)
-        const { screenInstanceId } = getNavigatorParams(searchParams)
+        const { screenInstanceId, present, sheet, transition } =
+          getNavigatorParams(location, navigatorParamsConfig)
+
+        const knownPtr =
+          screenInstanceId && matchScreen
+            ? screenInstances.findIndex(
+                (screenInstance) => screenInstance.id === screenInstanceId
+              )
+            : -1
 
-        if (screenInstanceId && matchScreen) {
-          const nextPtr = screenInstances.findIndex(
-            (screenInstance) => screenInstance.id === screenInstanceId
-          )
+        /**
+         * Ids unknown to the stack (e.g. issued before reload)
+         * are resolved by position as if the entry had no id
+         */
+        const nextPtr =
+          knownPtr > -1
+            ? knownPtr
+            : screenInstances[screenInstancePtr]?.nestedRouteCount === 0
+            ? screenInstancePtr - 1
+            : screenInstancePtr
 
+        /**
+         * Back within a nested navigator is guarded by the nested one
+         */
+        const nestedBack =
+          nextPtr === screenInstancePtr &&
+          (hasNestedParams(location, navigatorParamsConfig) ||
+            hasNestedParams(prevLocation, navigatorParamsConfig))
+
+        if (skipNavigationGuard) {
+          setSkipNavigationGuard({ skipNavigationGuard: false })
+        } else if (!nestedBack) {
+          const result = guard({
+            from: prevLocation.pathname + prevLocation.search,
+            to: location.pathname + location.search,
+            leavingScreenInstanceIds: screenInstances
+              .filter((_, idx) => idx > nextPtr && idx <= screenInstancePtr)
+              .map((screenInstance) => screenInstance.id),
+          })
+
+          if (result !== true) {
+            /**
+             * Restore the history entries while the guards are pending
+             */
+            setTransacting({ transacting: true })
+
+            const restored = goHistory(
+              history,
+              depth,
+              getLocationKey(prevLocation)
+            ).then((moved) => {
+              setTransacting({ transacting: false })
+              return moved
+            })
+
+            Promise.all([restored, result]).then(([moved, result]) => {
+              if (!moved) {
+                return
+              }
+              if (result === true) {
+                setSkipNavigationGuard({ skipNavigationGuard: true })
+                goHistory(history, -depth, getLocationKey(location)).then(
+                  (moved) => {
+                    if (!moved) {
+                      setSkipNavigationGuard({ skipNavigationGuard: false })
+                    }
+                  }
+                )
+              } else if (typeof result === 'string') {
+                const { pathname, searchParams } = new URL(
+                  result,
+                  /* dummy */ 'file://'
+                )
+                history.push(
+                  makeNavigatorLocation(
+                    { pathname, searchParams },
+                    { screenInstanceId: uid() },
+                    navigatorParamsConfig
+                  )
+                )
+              }
+            })
+
+            /**
+             * Keep the location keys of the entries being restored
+             */
+            return false
+          }
+        }
+
+        if (knownPtr > -1 && screenInstanceId) {
+          /**
+           * Entries of the same screen instance (e.g. pushed by
+           * `setQueryParams()`) are counted down by the entries gone back
+           */
           mapScreenInstance({
             ptr: screenInstancePtr,
             mapper: (screenInstance) => ({
               ...screenInstance,
-              nestedRouteCount: 0,
+              nestedRouteCount:
+                knownPtr === screenInstancePtr
+                  ? Math.max(screenInstance.nestedRouteCount - depth, 0)
+                  : 0,
             }),
           })
           pop({
             depth: screenInstancePtr - nextPtr,
             targetScreenInstanceId: screenInstanceId,
           })
+        } else if (screenInstanceId && matchScreen && nextPtr < 0) {
+          /**
+           * Back beyond the bottom of the stack (e.g. restored without
+           * `persistStack`), the entry becomes the new bottom
+           */
+          exclude([screenInstanceId])
+          setScreenInstances({
+            screenInstances: [
+              {
+                id: screenInstanceId,
+                screenId: matchScreen.id,
+                nestedRouteCount: 0,
+                present,
+                sheet: sheet ?? undefined,
+                transition: transition ?? undefined,
+                as: location.pathname,
+              },
+            ],
+            ptr: 0,
+          })
         } else if (screenInstances[screenInstancePtr]?.nestedRouteCount === 0) {
           pop({
             depth: 1,
@@ -58,9 +197,15 @@ function useInitializeHistoryPopEffect() {
         }
       },
       forward(location) {
-        const { screens, screenInstancePtr } = store.getState()
-        const searchParams = new URLSearchParams(location.search)
-        const { screenInstanceId, present } = getNavigatorParams(searchParams)
+        const { screens, screenInstances, screenInstancePtr, transacting } =
+          store.getState()
+
+        if (transacting) {
+          return
+        }
+
+        const { screenInstanceId, present, sheet, transition } =
+          getNavigatorParams(location, navigatorParamsConfig)
 
         const matchScreen = Object.values(screens).find(
           (screen) =>
@@ -68,11 +213,17 @@ function useInitializeHistoryPopEffect() {
             matchPath(location.pathname, { exact: true, path: screen.path })
         )
 
-        if (screenInstanceId && matchScreen) {
+        if (
+          screenInstanceId &&
+          matchScreen &&
+          screenInstanceId !== screenInstances[screenInstancePtr]?.id
+        ) {
           push({
             screenId: matchScreen.id,
             screenInstanceId,
             present,
+            sheet,
+            transition,
             as: location.pathname,
           })
         } else {
@@ -88,7 +239,8 @@ function useInitializeHistoryPopEffect() {
         }
       },
     },
-    [pop, push]
+    [pop, push, guard, navigatorParamsConfig],
+    locationKeyStackRef
   )
 }
 
@@ -1,5 +1,6 @@
 import { matchPath } from 'react-router-dom'
 
+import { useNavigatorParamsConfig } from '../contexts'
 import { getNavigatorParams } from '../helpers'
 import { useHistoryPushEffect } from '../hooks'
 import { useStore, useStoreActions } from '../store'
@@ -7,16 +8,22 @@ import { usePush } from './Stack.usePush'
 
 export function useInitializeHistoryPushEffect() {
   const store = useStore()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
   const { mapScreenInstance } = useStoreActions()
 
   const push = usePush()
 
   useHistoryPushEffect(
     (location) => {
-      const { screens, screenInstancePtr } = store.getState()
+      const { screens, screenInstances, screenInstancePtr, transacting } =
+        store.getState()
 
-      const searchParams = new URLSearchParams(location.search)
-      const { screenInstanceId, present } = getNavigatorParams(searchParams)
+      if (transacting) {
+        return
+      }
+
+      const { screenInstanceId, present, sheet, transition } =
+        getNavigatorParams(location, navigatorParamsConfig)
 
       const matchScreen = Object.values(screens).find(
         (screen) =>
@@ -24,11 +31,19 @@ export function useInitializeHistoryPushEffect() {
           matchPath(location.pathname, { exact: true, path: screen.path })
       )
 
-      if (screenInstanceId && matchScreen) {
+      /**
+       * Pushed with the id of the top screen instance
+       * (e.g. `setQueryParams()`), only its querystring changes
+       */
+      const isTop = screenInstanceId === screenInstances[screenInstancePtr]?.id
+
+      if (screenInstanceId && matchScreen && !isTop) {
         push({
           screenId: matchScreen.id,
           screenInstanceId,
           present,
+          sheet,
+          transition,
           as: location.pathname,
         })
       } else {
@@ -41,6 +56,6 @@ export function useInitializeHistoryPushEffect() {
         })
       }
     },
-    [push]
+    [push, navigatorParamsConfig]
   )
 }
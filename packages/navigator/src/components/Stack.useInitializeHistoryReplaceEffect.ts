@@ -1,5 +1,6 @@
 import { matchPath } from 'react-router-dom'
 
+import { useNavigatorParamsConfig } from '../contexts'
 import { getNavigatorParams } from '../helpers'
 import { useHistoryReplaceEffect } from '../hooks'
 import { useStore } from '../store'
@@ -7,15 +8,29 @@ import { useReplace } from './Stack.useReplace'
 
 export function useInitializeHistoryReplaceEffect() {
   const store = useStore()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
 
   const replace = useReplace()
 
   useHistoryReplaceEffect(
     (location) => {
-      const { screens } = store.getState()
+      const { screens, screenInstances, screenInstancePtr, transacting } =
+        store.getState()
 
-      const searchParams = new URLSearchParams(location.search)
-      const { screenInstanceId, present } = getNavigatorParams(searchParams)
+      if (transacting) {
+        return
+      }
+
+      const { screenInstanceId, present, sheet, transition } =
+        getNavigatorParams(location, navigatorParamsConfig)
+
+      /**
+       * Only the params of nested navigators have changed
+       */
+      const top = screenInstances[screenInstancePtr]
+      if (top && top.id === screenInstanceId && top.as === location.pathname) {
+        return
+      }
 
       const matchScreen = Object.values(screens).find(
         (screen) =>
@@ -28,10 +43,12 @@ export function useInitializeHistoryReplaceEffect() {
           screenId: matchScreen.id,
           screenInstanceId,
           present,
+          sheet,
+          transition,
           as: location.pathname,
         })
       }
     },
-    [replace]
+    [replace, navigatorParamsConfig]
   )
 }
@@ -0,0 +1,59 @@
+import { act, render } from '@testing-library/react'
+import React from 'react'
+
+import { createMemoryHistoryAdapter } from '../helpers'
+import Navigator from '../Navigator'
+import Screen from '../Screen'
+import { IStackStorage } from '../types'
+import { useNavigator } from '../useNavigator'
+import { useSwipeBack } from '../useSwipeBack'
+
+describe('persistStack', () => {
+  test('writes the snapshot only when the stack changes', async () => {
+    const setItem = jest.fn()
+    const storage: IStackStorage = {
+      getItem: () => null,
+      setItem,
+    }
+
+    let navigator: ReturnType<typeof useNavigator>
+    let swipeBack: ReturnType<typeof useSwipeBack>
+
+    const Home: React.FC = () => {
+      navigator = useNavigator()
+      swipeBack = useSwipeBack()
+      return null
+    }
+
+    render(
+      <Navigator
+        name="feed"
+        historyAdapter={createMemoryHistoryAdapter()}
+        persistStack
+        stackStorage={storage}
+      >
+        <Screen path="/" component={Home} />
+        <Screen path="/post" component={() => null} />
+      </Navigator>
+    )
+
+    expect(setItem).toHaveBeenCalled()
+    expect(
+      setItem.mock.calls.every(([key]) => key === 'kf_navigator_stack:feed')
+    ).toBe(true)
+
+    act(() => {
+      swipeBack.disable()
+    })
+    setItem.mockClear()
+    act(() => {
+      swipeBack.enable()
+    })
+    expect(setItem).not.toHaveBeenCalled()
+
+    await act(async () => {
+      navigator.push('/post')
+    })
+    expect(setItem).toHaveBeenCalled()
+  })
+})
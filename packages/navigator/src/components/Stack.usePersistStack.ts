@@ -0,0 +1,93 @@
+import { MutableRefObject, useEffect } from 'react'
+
+import { useHistory } from '../contexts'
+import { writeStackSnapshot } from '../helpers'
+import { GlobalState, useStore } from '../store'
+import { IStackStorage } from '../types'
+
+function usePersistStack({
+  stackStorage,
+  stackSnapshotKey,
+  locationKeyStackRef,
+}: {
+  stackStorage: IStackStorage | null
+  stackSnapshotKey: string
+  locationKeyStackRef: MutableRefObject<string[]>
+}) {
+  const history = useHistory()
+  const store = useStore()
+
+  useEffect(() => {
+    if (!stackStorage) {
+      return
+    }
+
+    /**
+     * Fields written last time, so that unrelated changes of the store
+     * (e.g. navbar or swipe back state) don't serialize the stack again
+     */
+    let persisted: {
+      screenInstances: GlobalState['screenInstances']
+      screenInstancePtr: number
+      screenInstanceSnapshots: GlobalState['screenInstanceSnapshots']
+      locationKeyStack: string
+    } | null = null
+
+    const persist = () => {
+      const { screenInstances, screenInstancePtr, screenInstanceSnapshots } =
+        store.getState()
+
+      if (screenInstancePtr === -1) {
+        return
+      }
+
+      const locationKeyStack = locationKeyStackRef.current.join('\n')
+
+      if (
+        persisted &&
+        persisted.screenInstances === screenInstances &&
+        persisted.screenInstancePtr === screenInstancePtr &&
+        persisted.screenInstanceSnapshots === screenInstanceSnapshots &&
+        persisted.locationKeyStack === locationKeyStack
+      ) {
+        return
+      }
+
+      persisted = {
+        screenInstances,
+        screenInstancePtr,
+        screenInstanceSnapshots,
+        locationKeyStack,
+      }
+
+      writeStackSnapshot(
+        stackStorage,
+        {
+          screenInstances,
+          screenInstancePtr,
+          locationKeyStack: locationKeyStackRef.current,
+          screenInstanceSnapshots: screenInstances.reduce(
+            (acc, { id }) => ({
+              ...acc,
+              [id]: screenInstanceSnapshots[id],
+            }),
+            {} as typeof screenInstanceSnapshots
+          ),
+        },
+        stackSnapshotKey
+      )
+    }
+
+    persist()
+
+    const disposeStore = store.listen(persist)
+    const disposeHistory = history.listen(persist)
+
+    return () => {
+      disposeStore()
+      disposeHistory()
+    }
+  }, [stackStorage, stackSnapshotKey, history, store])
+}
+
+export default usePersistStack
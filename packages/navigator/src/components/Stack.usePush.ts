@@ -1,6 +1,6 @@
 import { useCallback } from 'react'
 
-import { useStore, useStoreActions } from '../store'
+import { ISheetOptions, useStore, useStoreActions } from '../store'
 
 export function usePush() {
   const store = useStore()
@@ -15,11 +15,15 @@ export function usePush() {
       screenId,
       screenInstanceId,
       present,
+      sheet,
+      transition,
       as,
     }: {
       screenId: string
       screenInstanceId: string
       present: boolean
+      sheet: ISheetOptions | null
+      transition: string | null
       as: string
     }) => {
       const { screenInstances, screenInstancePtr } = store.getState()
@@ -35,6 +39,8 @@ export function usePush() {
             id: screenInstanceId,
             screenId,
             present,
+            sheet: sheet ?? undefined,
+            transition: transition ?? undefined,
             as,
           },
         })
@@ -1,6 +1,6 @@
 import { useCallback } from 'react'
 
-import { useStore, useStoreActions } from '../store'
+import { ISheetOptions, useStore, useStoreActions } from '../store'
 
 export function useReplace() {
   const store = useStore()
@@ -12,11 +12,15 @@ export function useReplace() {
       screenInstanceId,
       as,
       present,
+      sheet,
+      transition,
     }: {
       screenId: string
       screenInstanceId: string
       as: string
       present: boolean
+      sheet: ISheetOptions | null
+      transition: string | null
     }) => {
       const { screenInstancePtr } = store.getState()
 
@@ -26,6 +30,8 @@ export function useReplace() {
           id: screenInstanceId,
           screenId,
           present,
+          sheet: sheet ?? undefined,
+          transition: transition ?? undefined,
           as,
         },
       })
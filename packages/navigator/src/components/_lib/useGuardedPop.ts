@@ -0,0 +1,52 @@
+import { useCallback } from 'react'
+
+import { useNavigationGuard, whenResolved } from '../../hooks'
+import { useStore } from '../../store'
+import { useNavigator } from '../../useNavigator'
+
+/**
+ * Pop the top screen instance once the guards allow it
+ * (e.g. on swipe back or when a sheet is dismissed),
+ * or follow the redirect of the guards
+ */
+function useGuardedPop() {
+  const store = useStore()
+  const { push, pop } = useNavigator()
+  const guard = useNavigationGuard()
+
+  return useCallback(
+    ({
+      screenInstanceId,
+      onPop,
+      onCancel,
+    }: {
+      screenInstanceId: string
+      onPop?: () => void
+      onCancel?: () => void
+    }) => {
+      const { screenInstances, screenInstancePtr } = store.getState()
+
+      const result = guard({
+        to: screenInstances[screenInstancePtr - 1]?.as ?? '',
+        leavingScreenInstanceIds: [screenInstanceId],
+      })
+
+      whenResolved(result, (result) => {
+        if (result === true) {
+          onPop?.()
+          pop(1, { force: true })
+          return
+        }
+
+        onCancel?.()
+
+        if (typeof result === 'string') {
+          push(result)
+        }
+      })
+    },
+    [store, guard, push, pop]
+  )
+}
+
+export default useGuardedPop
@@ -0,0 +1,47 @@
+import { History, Location } from 'history'
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+
+export const ContextHistory = createContext<{
+  history: History
+  location: Location
+}>(null as any)
+
+export const HistoryProvider: React.FC<{ history: History }> = (props) => {
+  const [location, setLocation] = useState(() => props.history.location)
+
+  useEffect(() => {
+    setLocation(props.history.location)
+
+    return props.history.listen((location) => {
+      setLocation(location)
+    })
+  }, [props.history])
+
+  return (
+    <ContextHistory.Provider
+      value={useMemo(
+        () => ({
+          history: props.history,
+          location,
+        }),
+        [props.history, location]
+      )}
+    >
+      {props.children}
+    </ContextHistory.Provider>
+  )
+}
+
+export function useHistory() {
+  return useContext(ContextHistory).history
+}
+
+export function useLocation() {
+  return useContext(ContextHistory).location
+}
@@ -0,0 +1,14 @@
+import { createContext, MutableRefObject, useContext } from 'react'
+
+/**
+ * Location keys of the history entries of the stack (oldest first)
+ */
+export const ContextLocationKeyStack = createContext<MutableRefObject<
+  string[]
+> | null>(null)
+
+export const LocationKeyStackProvider = ContextLocationKeyStack.Provider
+
+export function useLocationKeyStack() {
+  return useContext(ContextLocationKeyStack)
+}
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react'
+
+import { INavigatorAfterEach, INavigatorBeforeEach } from '../types'
+
+export const ContextNavigationGuards = createContext<{
+  beforeEach?: INavigatorBeforeEach
+  afterEach?: INavigatorAfterEach
+}>({})
+
+export const NavigationGuardsProvider = ContextNavigationGuards.Provider
+
+export function useNavigationGuards() {
+  return useContext(ContextNavigationGuards)
+}
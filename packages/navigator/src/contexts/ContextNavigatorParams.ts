@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react'
+
+import {
+  DEFAULT_NAVIGATOR_PARAMS_CONFIG,
+  INavigatorParamsConfig,
+} from '../helpers'
+
+/**
+ * Keys and storage of navigator params
+ */
+export const ContextNavigatorParams = createContext<INavigatorParamsConfig>(
+  DEFAULT_NAVIGATOR_PARAMS_CONFIG
+)
+
+export const NavigatorParamsProvider = ContextNavigatorParams.Provider
+
+export function useNavigatorParamsConfig() {
+  return useContext(ContextNavigatorParams)
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react'
+
+/**
+ * Names of the enclosing navigators from the outermost
+ * (including the navigator itself)
+ */
+export const ContextNavigatorPath = createContext<string[]>([])
+
+export const NavigatorPathProvider = ContextNavigatorPath.Provider
+
+export function useNavigatorPath() {
+  return useContext(ContextNavigatorPath)
+}
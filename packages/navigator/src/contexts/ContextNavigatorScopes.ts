@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react'
+
+import { INavigator } from '../useNavigator'
+
+/**
+ * Navigators enclosing a nested navigator
+ */
+export const ContextNavigatorScopes = createContext<{
+  parent: INavigator
+  root: INavigator
+} | null>(null)
+
+export const NavigatorScopesProvider = ContextNavigatorScopes.Provider
+
+export function useNavigatorScopes() {
+  return useContext(ContextNavigatorScopes)
+}
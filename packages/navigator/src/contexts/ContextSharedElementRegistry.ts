@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react'
+
+import { ISharedElementRegistry } from '../helpers'
+
+export const ContextSharedElementRegistry =
+  createContext<ISharedElementRegistry>(null as any)
+
+export const SharedElementRegistryProvider =
+  ContextSharedElementRegistry.Provider
+
+export function useSharedElementRegistry() {
+  return useContext(ContextSharedElementRegistry)
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react'
+
+import { ITransitionEmitter } from '../helpers'
+
+export const ContextTransitionEmitter = createContext<ITransitionEmitter>(
+  null as any
+)
+
+export const TransitionEmitterProvider = ContextTransitionEmitter.Provider
+
+export function useTransitionEmitter() {
+  return useContext(ContextTransitionEmitter)
+}
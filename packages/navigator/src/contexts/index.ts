@@ -1,2 +1,10 @@
+export * from './ContextHistory'
+export * from './ContextLocationKeyStack'
+export * from './ContextNavigationGuards'
+export * from './ContextNavigatorParams'
+export * from './ContextNavigatorPath'
+export * from './ContextNavigatorScopes'
 export * from './ContextScreenInstance'
 export * from './ContextScreenInstanceSetNavbar'
+export * from './ContextSharedElementRegistry'
+export * from './ContextTransitionEmitter'
@@ -0,0 +1,113 @@
+import { act, render } from '@testing-library/react'
+import React from 'react'
+
+import { renderNavigator } from './_test/renderNavigator'
+import { createRoutes } from './createRoutes'
+import { createMemoryHistoryAdapter } from './helpers'
+import Navigator from './Navigator'
+import Screen from './Screen'
+
+const routes = createRoutes({
+  home: { path: '/' },
+  post: { path: '/post/:postId', query: ['tab'] as const },
+  user: { path: '/user/:userId/:section?' },
+})
+
+describe('createRoutes', () => {
+  test('makePath fills params of the path', () => {
+    expect(routes.makePath('home')).toBe('/')
+    expect(routes.makePath('post', { postId: '1' })).toBe('/post/1')
+    expect(routes.makePath('user', { userId: '2' })).toBe('/user/2')
+    expect(routes.makePath('user', { userId: '2', section: 'posts' })).toBe(
+      '/user/2/posts'
+    )
+  })
+
+  test('makePath appends querystring without empty values', () => {
+    expect(
+      routes.makePath('post', { postId: '1' }, { query: { tab: 'comments' } })
+    ).toBe('/post/1?tab=comments')
+    expect(
+      routes.makePath('post', { postId: '1' }, { query: { tab: undefined } })
+    ).toBe('/post/1')
+  })
+
+  test('route assertion warns once for a mismatching screen', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const Home: React.FC = () => {
+      routes.useParams('post')
+      return null
+    }
+
+    const { rerender } = render(
+      <Navigator historyAdapter={createMemoryHistoryAdapter()}>
+        <Screen path="/" component={Home} />
+      </Navigator>
+    )
+    rerender(
+      <Navigator historyAdapter={createMemoryHistoryAdapter()}>
+        <Screen path="/" component={Home} />
+      </Navigator>
+    )
+
+    expect(
+      warn.mock.calls.filter(([message]) => message.includes('Route "post"'))
+    ).toHaveLength(1)
+
+    warn.mockRestore()
+  })
+
+  test('makePath rejects unknown routes, params and query keys', () => {
+    // @ts-expect-error unknown route
+    expect(() => routes.makePath('unknown')).toThrow()
+
+    // @ts-expect-error missing params
+    expect(() => routes.makePath('post')).toThrow()
+
+    // @ts-expect-error unknown param
+    expect(() => routes.makePath('post', { id: '1' })).toThrow()
+
+    // @ts-expect-error param of wrong type
+    expect(routes.makePath('post', { postId: 1 })).toBe('/post/1')
+
+    expect(
+      // @ts-expect-error unknown query key
+      routes.makePath('post', { postId: '1' }, { query: { page: '2' } })
+    ).toBe('/post/1?page=2')
+
+    // @ts-expect-error no query keys allowed
+    expect(routes.makePath('home', {}, { query: { tab: 'a' } })).toBe('/?tab=a')
+  })
+
+  test('useNavigator() and useQueryParams() reject what the routes do not allow', () => {
+    let navigator: ReturnType<typeof routes.useNavigator> | null = null
+
+    const Home: React.FC = () => {
+      navigator = routes.useNavigator()
+      return null
+    }
+    const Post: React.FC = () => {
+      routes.useQueryParams('post', { schema: { tab: { type: 'string' } } })
+      // @ts-expect-error unknown query key in schema
+      routes.useQueryParams('post', { schema: { page: { type: 'number' } } })
+      return null
+    }
+
+    const { getStack } = renderNavigator({
+      screens: { '/': Home, '/post/:postId': Post },
+    })
+
+    // @ts-expect-error unknown route
+    expect(() => navigator!.push('unknown')).toThrow()
+    // @ts-expect-error missing params
+    expect(() => navigator!.push('post')).toThrow()
+
+    act(() => {
+      // @ts-expect-error unknown query key
+      navigator!.push('post', { postId: '1' }, { query: { page: '2' } })
+    })
+
+    expect(getStack()).toEqual(['/', '/post/1'])
+  })
+})
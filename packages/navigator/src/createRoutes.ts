@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import { generatePath } from 'react-router-dom'
+
+import { useScreenInstance } from './contexts'
+import { useStore } from './store'
+import { IQueryParamsOf, IQueryParamsSchema } from './types'
+import {
+  INavigatorPresentOptions,
+  INavigatorScopeOptions,
+  useNavigator as useUntypedNavigator,
+} from './useNavigator'
+import { useParams as useUntypedParams } from './useParams'
+import {
+  IQueryParamsOptions,
+  ISetQueryParams,
+  useQueryParams as useUntypedQueryParams,
+} from './useQueryParams'
+
+export interface IRoute<P extends string = string, Q extends string = string> {
+  /**
+   * URL path (same as `path` of `<Screen />`)
+   */
+  path: P
+
+  /**
+   * Allowed querystring keys
+   */
+  query?: readonly Q[]
+}
+
+type IPathParam<S extends string> = S extends `${infer Name}(${string})`
+  ? IPathParam<Name>
+  : S extends `${infer Name}?` | `${infer Name}*`
+  ? { [key in Name]?: string }
+  : S extends `${infer Name}+`
+  ? { [key in Name]: string }
+  : { [key in S]: string }
+
+/**
+ * Params of a path pattern (e.g. `{ id: string }` of `/post/:id`)
+ */
+type IPathParams<P extends string> = string extends P
+  ? { [key: string]: string | undefined }
+  : P extends `${string}:${infer Param}/${infer Rest}`
+  ? IPathParam<Param> & IPathParams<Rest>
+  : P extends `${string}:${infer Param}`
+  ? IPathParam<Param>
+  : {}
+
+export type IRouteParams<R extends IRoute> = IPathParams<R['path']>
+
+export type IRouteQueryParams<R extends IRoute> = R extends {
+  query: readonly (infer Q)[]
+}
+  ? { [key in Q & string]?: string }
+  : { [key: string]: never }
+
+type IRouteQueryKey<R extends IRoute> = R extends {
+  query: readonly (infer Q)[]
+}
+  ? Q & string
+  : never
+
+/**
+ * Schema of `useQueryParams()` limited to the querystring keys of a route
+ */
+export type IRouteQueryParamsSchema<
+  R extends IRoute,
+  S extends IQueryParamsSchema
+> = S & { [K in Exclude<keyof S, IRouteQueryKey<R>>]: never }
+
+type IRouteArgs<R extends IRoute, O> = {} extends IRouteParams<R>
+  ? [params?: IRouteParams<R>, options?: O & { query?: IRouteQueryParams<R> }]
+  : [params: IRouteParams<R>, options?: O & { query?: IRouteQueryParams<R> }]
+
+export function createRoutes<
+  T extends { [name: string]: IRoute<P, Q> },
+  P extends string,
+  Q extends string
+>(routes: T) {
+  type RouteName = keyof T & string
+
+  function buildPath(
+    path: string,
+    params?: IPathParams<string>,
+    query?: { [key: string]: string | undefined }
+  ) {
+    const pathname = generatePath(path, params)
+
+    const searchParams = new URLSearchParams()
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        searchParams.set(key, value)
+      }
+    })
+
+    const search = searchParams.toString()
+
+    return search ? `${pathname}?${search}` : pathname
+  }
+
+  function makePath<N extends RouteName>(
+    name: N,
+    ...[params, options]: IRouteArgs<T[N], {}>
+  ): string {
+    return buildPath(routes[name].path, params, options?.query)
+  }
+
+  function useNavigator(options?: INavigatorScopeOptions) {
+    const navigator = useUntypedNavigator(options)
+    const store = useStore()
+
+    const resolve = useCallback(
+      (
+        name: RouteName,
+        params?: IPathParams<string>,
+        query?: { [key: string]: string | undefined }
+      ) => {
+        const { path } = routes[name]
+
+        if (!store.getState().screens[path]) {
+          console.warn(`No <Screen /> is registered with path "${path}"`)
+        }
+
+        return buildPath(path, params, query)
+      },
+      [store]
+    )
+
+    const push = useCallback(
+      <N extends RouteName, D = object>(
+        name: N,
+        ...[params, options]: IRouteArgs<
+          T[N],
+          INavigatorPresentOptions & {
+            /**
+             * Name of transition (built-in or registered to `Navigator`)
+             */
+            transition?: string
+          }
+        >
+      ) =>
+        navigator.push<D>(resolve(name, params, options?.query), {
+          present: options?.present,
+          presentation: options?.presentation,
+          detents: options?.detents,
+          transition: options?.transition,
+        }),
+      [navigator.push, resolve]
+    )
+
+    const replace = useCallback(
+      <N extends RouteName>(
+        name: N,
+        ...[params, options]: IRouteArgs<
+          T[N],
+          {
+            /**
+             * Animate when replaced
+             */
+            animate?: boolean
+          }
+        >
+      ) =>
+        navigator.replace(resolve(name, params, options?.query), {
+          animate: options?.animate,
+        }),
+      [navigator.replace, resolve]
+    )
+
+    const popTo = useCallback(
+      (name: RouteName) => navigator.popTo(routes[name].path),
+      [navigator.popTo]
+    )
+
+    return useMemo(
+      () => ({
+        push,
+        replace,
+        pop: navigator.pop,
+        popTo,
+        popToRoot: navigator.popToRoot,
+        reset: navigator.reset,
+        pushMany: navigator.pushMany,
+      }),
+      [
+        push,
+        replace,
+        navigator.pop,
+        popTo,
+        navigator.popToRoot,
+        navigator.reset,
+        navigator.pushMany,
+      ]
+    )
+  }
+
+  function useRouteAssertion(name: RouteName) {
+    const { path } = useScreenInstance()
+
+    useEffect(() => {
+      if (routes[name].path !== path) {
+        console.warn(
+          `Route "${name}" is used in <Screen /> with path "${path}" (expected "${routes[name].path}")`
+        )
+      }
+    }, [name, path])
+  }
+
+  function useParams<N extends RouteName>(name: N) {
+    useRouteAssertion(name)
+
+    return useUntypedParams() as IRouteParams<T[N]>
+  }
+
+  function useQueryParams<N extends RouteName, S extends IQueryParamsSchema>(
+    name: N,
+    options: IQueryParamsOptions & { schema: IRouteQueryParamsSchema<T[N], S> }
+  ): [IQueryParamsOf<S>, ISetQueryParams<S>]
+  function useQueryParams<N extends RouteName>(
+    name: N,
+    options?: IQueryParamsOptions
+  ): IRouteQueryParams<T[N]>
+  function useQueryParams(
+    name: RouteName,
+    options?: IQueryParamsOptions & { schema?: IQueryParamsSchema }
+  ) {
+    useRouteAssertion(name)
+
+    return useUntypedQueryParams(options)
+  }
+
+  return {
+    routes,
+    makePath,
+    useNavigator,
+    useParams,
+    useQueryParams,
+  }
+}
@@ -0,0 +1,41 @@
+import { INavigatorAfterEach, INavigatorBeforeEach } from '../types'
+
+/**
+ * `beforeEach` of an enclosing navigator runs first,
+ * and its cancel or redirect wins over `own`
+ * (still synchronous while both return synchronously)
+ */
+export function chainBeforeEach(
+  parent: INavigatorBeforeEach | undefined,
+  own: INavigatorBeforeEach | undefined
+): INavigatorBeforeEach | undefined {
+  if (!parent || !own) {
+    return parent ?? own
+  }
+
+  return (to, from) => {
+    const next = (result: boolean | string | void) =>
+      result === undefined || result === true ? own(to, from) : result
+
+    const result = parent(to, from)
+
+    return result instanceof Promise ? result.then(next) : next(result)
+  }
+}
+
+/**
+ * `afterEach` of an enclosing navigator is called first
+ */
+export function chainAfterEach(
+  parent: INavigatorAfterEach | undefined,
+  own: INavigatorAfterEach | undefined
+): INavigatorAfterEach | undefined {
+  if (!parent || !own) {
+    return parent ?? own
+  }
+
+  return (to, from) => {
+    parent(to, from)
+    own(to, from)
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Number of mounted navigators per URL (the window, or the history
+ * of an enclosing navigator) and per key kept in it
+ */
+const claims = new WeakMap<object, { [key: string]: number }>()
+
+/**
+ * Register a navigator keeping its location in `key` of `url`.
+ * `shared` tells that another mounted navigator already keeps it there
+ */
+export function claimNavigatorUrl(url: object, key: string) {
+  const counts = claims.get(url) ?? {}
+  claims.set(url, counts)
+
+  counts[key] = (counts[key] ?? 0) + 1
+
+  return {
+    shared: counts[key] > 1,
+    release() {
+      counts[key] -= 1
+    },
+  }
+}
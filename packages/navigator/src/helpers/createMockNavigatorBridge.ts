@@ -0,0 +1,54 @@
+import { INavigatorBridge } from '../types'
+
+export interface IMockNavigatorBridge extends INavigatorBridge {
+  /**
+   * Simulate the back key of the host app
+   */
+  pressBack: () => void
+
+  /**
+   * What navigator has told the host app so far
+   */
+  getState: () => {
+    closeRequestCount: number
+    swipeBackEnabled: boolean | null
+    depth: number | null
+  }
+}
+
+/**
+ * Bridge that only records calls (for tests, Storybook and desktop browsers)
+ */
+export function createMockNavigatorBridge(): IMockNavigatorBridge {
+  let listeners: Array<() => void> = []
+  const state = {
+    closeRequestCount: 0,
+    swipeBackEnabled: null as boolean | null,
+    depth: null as number | null,
+  }
+
+  return {
+    onBackPressed(listener) {
+      listeners = [...listeners, listener]
+
+      return () => {
+        listeners = listeners.filter((l) => l !== listener)
+      }
+    },
+    requestClose() {
+      state.closeRequestCount += 1
+    },
+    setSwipeBackEnabled(enabled) {
+      state.swipeBackEnabled = enabled
+    },
+    onDepthChange(depth) {
+      state.depth = depth
+    },
+    pressBack() {
+      listeners.forEach((listener) => listener())
+    },
+    getState() {
+      return { ...state }
+    },
+  }
+}
@@ -0,0 +1,31 @@
+import { createScreenInstanceId } from './createScreenInstanceId'
+
+describe('createScreenInstanceId()', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('issues ids that need no escaping in URL', () => {
+    expect(createScreenInstanceId()).toMatch(/^[0-9a-z]+$/)
+  })
+
+  test('issues different ids within the same millisecond', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1600000000000)
+
+    const ids = new Set(Array.from({ length: 100 }, createScreenInstanceId))
+
+    expect(ids.size).toBe(100)
+  })
+
+  test('issues different ids after reload with the same random values', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.123456789)
+
+    jest.spyOn(Date, 'now').mockReturnValue(1600000000000)
+    const before = createScreenInstanceId()
+
+    jest.spyOn(Date, 'now').mockReturnValue(1600000000001)
+    const after = createScreenInstanceId()
+
+    expect(after).not.toBe(before)
+  })
+})
@@ -0,0 +1,8 @@
+import { IScreenInstanceIdGenerator } from '../types'
+
+/**
+ * Time and random based id, unique across reloads and tabs
+ * (default of `screenInstanceIdGenerator`)
+ */
+export const createScreenInstanceId: IScreenInstanceIdGenerator = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 8)
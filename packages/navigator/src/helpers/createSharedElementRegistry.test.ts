@@ -0,0 +1,130 @@
+import { createSharedElementRegistry } from './createSharedElementRegistry'
+
+/**
+ * jsdom doesn't lay out, so offsets are given by hand
+ */
+function box(
+  $el: HTMLElement,
+  rect: { x: number; y: number; width: number; height: number }
+) {
+  Object.defineProperties($el, {
+    offsetLeft: { value: rect.x },
+    offsetTop: { value: rect.y },
+    offsetWidth: { value: rect.width },
+    offsetHeight: { value: rect.height },
+  })
+  return $el
+}
+
+function renderScreens() {
+  const $root = document.createElement('div')
+  const $container = document.createElement('div')
+  const $source = box(document.createElement('div'), {
+    x: 10,
+    y: 20,
+    width: 100,
+    height: 50,
+  })
+  const $target = box(document.createElement('div'), {
+    x: 0,
+    y: 100,
+    width: 200,
+    height: 100,
+  })
+
+  $root.append($source, $target, $container)
+  document.body.appendChild($root)
+
+  const registry = createSharedElementRegistry()
+  registry.register('a', 'photo', $source)
+  const disposeTarget = registry.register('b', 'photo', $target)
+
+  return {
+    registry,
+    $container,
+    $source,
+    $target,
+    disposeTarget,
+    getClone: () => $container.firstElementChild as HTMLElement | null,
+  }
+}
+
+describe('createSharedElementRegistry()', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      configurable: true,
+      get() {
+        return this.parentElement
+      },
+    })
+    jest
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((callback) => {
+        callback(0)
+        return 0
+      })
+  })
+
+  afterEach(() => {
+    delete (HTMLElement.prototype as { offsetParent?: Element }).offsetParent
+    document.body.innerHTML = ''
+    jest.restoreAllMocks()
+    jest.useRealTimers()
+  })
+
+  test('puts a clone at the position in the `from` screen on start', () => {
+    const { registry, $container, $source, $target, getClone } = renderScreens()
+
+    registry.start({ from: 'a', to: 'b', $container })
+
+    expect(getClone()!.style.left).toBe('0px')
+    expect(getClone()!.style.top).toBe('100px')
+    expect(getClone()!.style.transform).toBe(
+      'translate(10px, -80px) scale(0.5, 0.5)'
+    )
+    expect($source.style.visibility).toBe('hidden')
+    expect($target.style.visibility).toBe('hidden')
+    expect(registry.isActive('a', 'b')).toBe(true)
+    expect(registry.isActive('b', 'a')).toBe(false)
+  })
+
+  test('does nothing for elements not shared by both screens', () => {
+    const { registry, $container, getClone, disposeTarget } = renderScreens()
+
+    disposeTarget()
+    registry.start({ from: 'a', to: 'b', $container })
+
+    expect(getClone()).toBeNull()
+  })
+
+  test('animates the clone and removes it when finished', () => {
+    const { registry, $container, $source, $target, getClone } = renderScreens()
+
+    registry.start({ from: 'a', to: 'b', $container })
+    registry.animateTo(1, 300)
+
+    expect(getClone()!.style.transition).toBe('transform 300ms')
+    expect(getClone()!.style.transform).toBe('translate(0px, 0px) scale(1, 1)')
+
+    jest.advanceTimersByTime(300)
+
+    expect(getClone()).toBeNull()
+    expect($source.style.visibility).toBe('')
+    expect($target.style.visibility).toBe('')
+    expect(registry.isActive('a', 'b')).toBe(false)
+  })
+
+  test('cleans up when a screen unmounts in the middle of the animation', () => {
+    const { registry, $container, $source, getClone, disposeTarget } =
+      renderScreens()
+
+    registry.start({ from: 'a', to: 'b', $container })
+    registry.animateTo(1, 300)
+    disposeTarget()
+
+    expect(getClone()).toBeNull()
+    expect($source.style.visibility).toBe('')
+    expect(registry.isActive('a', 'b')).toBe(false)
+  })
+})
@@ -0,0 +1,221 @@
+interface IRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface IOverlay {
+  $clone: HTMLElement
+  $source: HTMLElement
+  $target: HTMLElement
+  from: IRect
+  to: IRect
+}
+
+export type ISharedElementRegistry = ReturnType<
+  typeof createSharedElementRegistry
+>
+
+/**
+ * Position of `$el` relative to `$root` ignoring CSS transforms,
+ * so it can be measured while the screen is still transitioning
+ */
+function measure($el: HTMLElement, $root: HTMLElement): IRect {
+  let x = 0
+  let y = 0
+
+  let $offset: Element | null = $el
+  while ($offset instanceof HTMLElement && $offset !== $root) {
+    x += $offset.offsetLeft
+    y += $offset.offsetTop
+    $offset = $offset.offsetParent
+  }
+
+  let $scroll = $el.parentElement
+  while ($scroll && $scroll !== $root) {
+    x -= $scroll.scrollLeft
+    y -= $scroll.scrollTop
+    $scroll = $scroll.parentElement
+  }
+
+  return {
+    x,
+    y,
+    width: $el.offsetWidth,
+    height: $el.offsetHeight,
+  }
+}
+
+export function createSharedElementRegistry() {
+  const _elements: {
+    [screenInstanceId: string]: { [id: string]: HTMLElement } | undefined
+  } = {}
+
+  let _session: {
+    from: string
+    to: string
+    overlays: IOverlay[]
+    timer?: number
+  } | null = null
+
+  function cleanup() {
+    if (!_session) {
+      return
+    }
+
+    window.clearTimeout(_session.timer)
+    _session.overlays.forEach(({ $clone, $source, $target }) => {
+      $clone.remove()
+      $source.style.visibility = ''
+      $target.style.visibility = ''
+    })
+    _session = null
+  }
+
+  function render(overlay: IOverlay, p: number) {
+    const { from, to } = overlay
+    const lerp = (a: number, b: number) => a + (b - a) * p
+
+    overlay.$clone.style.transform = `translate(${lerp(
+      from.x - to.x,
+      0
+    )}px, ${lerp(from.y - to.y, 0)}px) scale(${lerp(
+      from.width / to.width,
+      1
+    )}, ${lerp(from.height / to.height, 1)})`
+  }
+
+  return {
+    register(screenInstanceId: string, id: string, $el: HTMLElement) {
+      _elements[screenInstanceId] = {
+        ..._elements[screenInstanceId],
+        [id]: $el,
+      }
+
+      function dispose() {
+        if (_elements[screenInstanceId]?.[id] !== $el) {
+          return
+        }
+
+        const elements = { ..._elements[screenInstanceId] }
+        delete elements[id]
+
+        _elements[screenInstanceId] = elements
+
+        /**
+         * Unmounted in the middle of the animation
+         */
+        if (
+          _session?.overlays.some(
+            ({ $source, $target }) => $source === $el || $target === $el
+          )
+        ) {
+          cleanup()
+        }
+      }
+
+      return dispose
+    },
+
+    /**
+     * Whether shared elements are moving between the two screens
+     */
+    isActive(from: string, to: string) {
+      return !!_session && _session.from === from && _session.to === to
+    },
+
+    /**
+     * Put clones of shared elements found in both screens on `$container`
+     * at the position in the `from` screen
+     */
+    start({
+      from,
+      to,
+      $container,
+    }: {
+      from: string
+      to: string
+      $container: HTMLElement
+    }) {
+      cleanup()
+
+      const $root = $container.offsetParent
+      const sources = _elements[from] ?? {}
+      const targets = _elements[to] ?? {}
+
+      if (!($root instanceof HTMLElement)) {
+        return
+      }
+
+      const overlays = Object.keys(sources)
+        .filter((id) => targets[id])
+        .map((id) => {
+          const $source = sources[id]
+          const $target = targets[id]
+          const to = measure($target, $root)
+
+          const $clone = $target.cloneNode(true) as HTMLElement
+          $clone.style.position = 'absolute'
+          $clone.style.left = `${to.x}px`
+          $clone.style.top = `${to.y}px`
+          $clone.style.width = `${to.width}px`
+          $clone.style.height = `${to.height}px`
+          $clone.style.margin = '0'
+          $clone.style.zIndex = '100'
+          $clone.style.pointerEvents = 'none'
+          $clone.style.transformOrigin = '0 0'
+          $clone.style.visibility = ''
+
+          return {
+            $clone,
+            $source,
+            $target,
+            from: measure($source, $root),
+            to,
+          }
+        })
+
+      overlays.forEach((overlay) => {
+        render(overlay, 0)
+        $container.appendChild(overlay.$clone)
+        overlay.$source.style.visibility = 'hidden'
+        overlay.$target.style.visibility = 'hidden'
+      })
+
+      _session = { from, to, overlays }
+    },
+
+    /**
+     * Move clones to progress `p` (0: `from` screen, 1: `to` screen)
+     * without animation (e.g. while swiping back)
+     */
+    update(p: number) {
+      _session?.overlays.forEach((overlay) => {
+        overlay.$clone.style.transition = 'transform 0s'
+        render(overlay, p)
+      })
+    },
+
+    /**
+     * Animate clones to progress `p` and remove them when finished
+     */
+    animateTo(p: number, duration: number) {
+      const session = _session
+
+      if (!session) {
+        return
+      }
+
+      requestAnimationFrame(() => {
+        session.overlays.forEach((overlay) => {
+          overlay.$clone.style.transition = `transform ${duration}ms`
+          render(overlay, p)
+        })
+      })
+
+      window.clearTimeout(session.timer)
+      session.timer = window.setTimeout(cleanup, duration)
+    },
+  }
+}
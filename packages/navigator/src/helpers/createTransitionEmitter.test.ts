@@ -0,0 +1,43 @@
+import { createTransitionEmitter } from './createTransitionEmitter'
+
+describe('createTransitionEmitter()', () => {
+  test('notifies the listeners of the screen instance', () => {
+    const emitter = createTransitionEmitter()
+    const listener = jest.fn()
+    const otherListener = jest.fn()
+
+    emitter.listen('a', listener)
+    emitter.listen('b', otherListener)
+    emitter.emit('a', 'entering')
+
+    expect(listener).toHaveBeenCalledWith('entering')
+    expect(otherListener).not.toHaveBeenCalled()
+    expect(emitter.getStatus('a')).toBe('entering')
+  })
+
+  test('forgets the status once exited', () => {
+    const emitter = createTransitionEmitter()
+    const listener = jest.fn()
+
+    emitter.listen('a', listener)
+    emitter.emit('a', 'exiting')
+    emitter.emit('a', 'exited')
+
+    expect(listener).toHaveBeenLastCalledWith('exited')
+    expect(emitter.getStatus('a')).toBeUndefined()
+  })
+
+  test('stops notifying disposed listeners', () => {
+    const emitter = createTransitionEmitter()
+    const listener = jest.fn()
+    const otherListener = jest.fn()
+
+    const dispose = emitter.listen('a', listener)
+    emitter.listen('a', otherListener)
+    dispose()
+    emitter.emit('a', 'entered')
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(otherListener).toHaveBeenCalledWith('entered')
+  })
+})
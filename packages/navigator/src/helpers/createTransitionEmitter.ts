@@ -0,0 +1,55 @@
+export type IScreenTransitionStatus =
+  | 'entering'
+  | 'entered'
+  | 'exiting'
+  | 'exited'
+
+type Listener = (status: IScreenTransitionStatus) => void
+
+export type ITransitionEmitter = ReturnType<typeof createTransitionEmitter>
+
+export function createTransitionEmitter() {
+  const _statuses: {
+    [screenInstanceId: string]: IScreenTransitionStatus | undefined
+  } = {}
+  const _listeners: {
+    [screenInstanceId: string]: Listener[] | undefined
+  } = {}
+
+  return {
+    getStatus(screenInstanceId: string) {
+      return _statuses[screenInstanceId]
+    },
+    emit(screenInstanceId: string, status: IScreenTransitionStatus) {
+      _statuses[screenInstanceId] = status
+      _listeners[screenInstanceId]?.forEach((fn) => fn(status))
+
+      /**
+       * Exited screens are unmounted, so their statuses are not read anymore
+       */
+      if (status === 'exited') {
+        delete _statuses[screenInstanceId]
+      }
+    },
+    listen(screenInstanceId: string, fn: Listener) {
+      _listeners[screenInstanceId] = [
+        ...(_listeners[screenInstanceId] ?? []),
+        fn,
+      ]
+
+      function dispose() {
+        const listeners = _listeners[screenInstanceId]?.filter(
+          (listener) => listener !== fn
+        )
+
+        if (listeners?.length) {
+          _listeners[screenInstanceId] = listeners
+        } else {
+          delete _listeners[screenInstanceId]
+        }
+      }
+
+      return dispose
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import { resolveGesture } from './gestures'
+import { builtInThemes } from './themes'
+
+describe('resolveGesture()', () => {
+  test('follows the theme without gesture options', () => {
+    expect(resolveGesture(builtInThemes.Cupertino)).toEqual({
+      enabled: true,
+      edgeWidth: '1.25rem',
+      velocityThreshold: 1,
+      distanceRatio: 0.4,
+      underneathOffset: 80,
+    })
+    expect(resolveGesture(builtInThemes.Android).enabled).toBe(false)
+  })
+
+  test('lets the options of navigator override the theme', () => {
+    expect(
+      resolveGesture(builtInThemes.Android, {
+        enabled: true,
+        edgeWidth: '2rem',
+      })
+    ).toMatchObject({
+      enabled: true,
+      edgeWidth: '2rem',
+      distanceRatio: 0.4,
+    })
+  })
+
+  test('lets the options of screen override navigator and theme', () => {
+    const gesture = resolveGesture(
+      builtInThemes.Cupertino,
+      { enabled: true, edgeWidth: '2rem', distanceRatio: 0.3 },
+      { enabled: false, distanceRatio: 0.5 }
+    )
+
+    expect(gesture).toMatchObject({
+      enabled: false,
+      edgeWidth: '2rem',
+      distanceRatio: 0.5,
+    })
+  })
+
+  test('skips the options not given', () => {
+    expect(
+      resolveGesture(
+        builtInThemes.Android,
+        { enabled: true, velocityThreshold: 2 },
+        undefined
+      )
+    ).toMatchObject({
+      enabled: true,
+      velocityThreshold: 2,
+    })
+  })
+})
@@ -0,0 +1,31 @@
+import { IGesture, INavigatorThemeDefinition } from '../types'
+
+const DEFAULT_GESTURE: Required<Omit<IGesture, 'enabled'>> = {
+  edgeWidth: '1.25rem',
+  velocityThreshold: 1,
+  distanceRatio: 0.4,
+  underneathOffset: 80,
+}
+
+/**
+ * Merge gesture options of `Navigator` and `Screen`
+ * (the latter wins) over the defaults of theme
+ */
+export function resolveGesture(
+  theme: INavigatorThemeDefinition,
+  ...gestures: Array<IGesture | undefined>
+): Required<IGesture> {
+  return gestures.reduce<Required<IGesture>>(
+    (acc, gesture) => ({
+      enabled: gesture?.enabled ?? acc.enabled,
+      edgeWidth: gesture?.edgeWidth ?? acc.edgeWidth,
+      velocityThreshold: gesture?.velocityThreshold ?? acc.velocityThreshold,
+      distanceRatio: gesture?.distanceRatio ?? acc.distanceRatio,
+      underneathOffset: gesture?.underneathOffset ?? acc.underneathOffset,
+    }),
+    {
+      ...DEFAULT_GESTURE,
+      enabled: theme.swipeBack,
+    }
+  )
+}
@@ -0,0 +1,133 @@
+import {
+  getLocationKey,
+  getNavigatorParams,
+  makeNavigatorLocation,
+  omitNavigatorParams,
+  omitNavigatorParamsFromPath,
+  resolveNavigatorParamsConfig,
+} from './getNavigatorParams'
+
+const stateConfig = resolveNavigatorParamsConfig({ storage: 'state' })
+
+describe('makeNavigatorLocation()', () => {
+  test('writes navigator params to querystring', () => {
+    expect(
+      makeNavigatorLocation(
+        { pathname: '/posts', searchParams: new URLSearchParams('id=1') },
+        { screenInstanceId: 'a', sheet: { detents: [0.5, 1] } }
+      )
+    ).toEqual({
+      pathname: '/posts',
+      search: '?id=1&_si=a&_present=sheet&_detents=0.5%2C1',
+    })
+  })
+
+  test('writes navigator params to history.state', () => {
+    expect(
+      makeNavigatorLocation(
+        { pathname: '/posts', searchParams: new URLSearchParams('id=1') },
+        { screenInstanceId: 'a', present: true },
+        stateConfig
+      )
+    ).toEqual({
+      pathname: '/posts',
+      search: '?id=1',
+      state: { kf_navigator: { _si: 'a', _present: 'true' } },
+    })
+  })
+
+  test('replaces the navigator params of the given querystring', () => {
+    const { search } = makeNavigatorLocation(
+      {
+        pathname: '/posts',
+        searchParams: new URLSearchParams('_si=a&_transition=fade'),
+      },
+      { screenInstanceId: 'b' },
+      resolveNavigatorParamsConfig({ keys: { screenInstanceId: 'sid' } })
+    )
+
+    expect(search).toBe('?_si=a&sid=b')
+  })
+
+  test('is read back by getNavigatorParams()', () => {
+    const params = {
+      screenInstanceId: 'a',
+      present: false,
+      sheet: { detents: [0.3] },
+      transition: 'fade',
+    }
+
+    expect(
+      getNavigatorParams(
+        makeNavigatorLocation(
+          { pathname: '/', searchParams: new URLSearchParams() },
+          params
+        ) as { search: string }
+      )
+    ).toEqual(params)
+    expect(
+      getNavigatorParams(
+        makeNavigatorLocation(
+          { pathname: '/', searchParams: new URLSearchParams() },
+          params,
+          stateConfig
+        ) as { search: string }
+      )
+    ).toEqual(params)
+  })
+})
+
+describe('getLocationKey()', () => {
+  test('tells apart entries with navigator params in history.state', () => {
+    const a = makeNavigatorLocation(
+      { pathname: '/posts', searchParams: new URLSearchParams() },
+      { screenInstanceId: 'a' },
+      stateConfig
+    )
+    const b = makeNavigatorLocation(
+      { pathname: '/posts', searchParams: new URLSearchParams() },
+      { screenInstanceId: 'b' },
+      stateConfig
+    )
+
+    expect(getLocationKey(a)).toBe('/posts#_si=a')
+    expect(getLocationKey(a)).not.toBe(getLocationKey(b))
+  })
+
+  test('is the path for entries without history.state', () => {
+    expect(getLocationKey({ pathname: '/posts', search: '?_si=a' })).toBe(
+      '/posts?_si=a'
+    )
+  })
+})
+
+describe('omitNavigatorParams()', () => {
+  test('removes navigator params including the ones of nested navigators', () => {
+    expect(
+      omitNavigatorParams({
+        id: '1',
+        _si: 'a',
+        _present: 'true',
+        '_nested.tab': '/',
+      })
+    ).toEqual({ id: '1' })
+  })
+
+  test('follows renamed keys', () => {
+    expect(
+      omitNavigatorParams(
+        { _si: 'a', sid: 'b' },
+        resolveNavigatorParamsConfig({ keys: { screenInstanceId: 'sid' } })
+      )
+    ).toEqual({ _si: 'a' })
+  })
+})
+
+describe('omitNavigatorParamsFromPath()', () => {
+  test('removes navigator params from querystring', () => {
+    expect(
+      omitNavigatorParamsFromPath('/posts?id=1&_si=a&_nested.tab=%2F')
+    ).toBe('/posts?id=1')
+    expect(omitNavigatorParamsFromPath('/posts?_si=a')).toBe('/posts')
+  })
+})
@@ -1,18 +1,228 @@
-export enum NavigatorParamKeys {
-  SCREEN_INSTANCE_ID = '_si',
-  PRESENT = '_present',
+import { LocationDescriptorObject } from 'history'
+
+import { ISheetOptions } from '../store'
+import { INavigatorParamKeys, INavigatorParamsOptions } from '../types'
+
+export const DEFAULT_SHEET_DETENTS = [0.5, 0.9]
+
+/**
+ * Field of `history.state` where navigator params are kept
+ */
+const NAVIGATOR_STATE_KEY = 'kf_navigator'
+
+export interface INavigatorParamsConfig {
+  keys: INavigatorParamKeys
+  storage: NonNullable<INavigatorParamsOptions['storage']>
+}
+
+export const DEFAULT_NAVIGATOR_PARAMS_CONFIG: INavigatorParamsConfig = {
+  keys: {
+    screenInstanceId: '_si',
+    present: '_present',
+    detents: '_detents',
+    transition: '_transition',
+    nested: '_nested',
+  },
+  storage: 'search',
+}
+
+export function resolveNavigatorParamsConfig(
+  options?: INavigatorParamsOptions
+): INavigatorParamsConfig {
+  return {
+    keys: {
+      ...DEFAULT_NAVIGATOR_PARAMS_CONFIG.keys,
+      ...options?.keys,
+    },
+    storage: options?.storage ?? DEFAULT_NAVIGATOR_PARAMS_CONFIG.storage,
+  }
 }
 
 export interface INavigatorParams {
   screenInstanceId: string | null
   present: boolean
+  sheet: ISheetOptions | null
+  transition: string | null
+}
+
+function readStateParams(state: unknown) {
+  const params = (state as { [NAVIGATOR_STATE_KEY]?: unknown } | null)?.[
+    NAVIGATOR_STATE_KEY
+  ]
+
+  return new URLSearchParams(
+    params && typeof params === 'object'
+      ? (params as { [key: string]: string })
+      : undefined
+  )
 }
 
+/**
+ * Read navigator params from both querystring and `history.state`
+ * (regardless of `storage`, so that either kind of entries resolves)
+ */
 export function getNavigatorParams(
-  searchParams: URLSearchParams
+  location: { search: string; state?: unknown },
+  { keys }: INavigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG
 ): INavigatorParams {
+  const searchParams = new URLSearchParams(location.search)
+  readStateParams(location.state).forEach((value, key) => {
+    searchParams.set(key, value)
+  })
+
+  const present = searchParams.get(keys.present)
+  const detents = searchParams
+    .get(keys.detents)
+    ?.split(',')
+    .map(Number)
+    .filter((detent) => detent > 0 && detent <= 1)
+
+  return {
+    screenInstanceId: searchParams.get(keys.screenInstanceId),
+    present: present === 'true',
+    sheet:
+      present === 'sheet'
+        ? {
+            detents:
+              detents && detents.length > 0 ? detents : DEFAULT_SHEET_DETENTS,
+          }
+        : null,
+    transition: searchParams.get(keys.transition),
+  }
+}
+
+/**
+ * Location to push or replace, with navigator params written
+ * to querystring or `history.state`
+ */
+export function makeNavigatorLocation(
+  {
+    pathname,
+    searchParams,
+  }: {
+    pathname: string
+    searchParams: URLSearchParams
+  },
+  { screenInstanceId, present, sheet, transition }: Partial<INavigatorParams>,
+  { keys, storage }: INavigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG
+): LocationDescriptorObject {
+  const navigatorParams = new URLSearchParams()
+
+  if (screenInstanceId) {
+    navigatorParams.set(keys.screenInstanceId, screenInstanceId)
+  }
+  if (sheet) {
+    navigatorParams.set(keys.present, 'sheet')
+    navigatorParams.set(keys.detents, sheet.detents.join(','))
+  } else if (present) {
+    navigatorParams.set(keys.present, 'true')
+  }
+  if (transition) {
+    navigatorParams.set(keys.transition, transition)
+  }
+
+  const search = new URLSearchParams(searchParams)
+  Object.values(keys).forEach((key) => {
+    search.delete(key)
+  })
+
+  if (storage === 'search') {
+    navigatorParams.forEach((value, key) => {
+      search.set(key, value)
+    })
+  }
+
   return {
-    screenInstanceId: searchParams.get(NavigatorParamKeys.SCREEN_INSTANCE_ID),
-    present: searchParams.get(NavigatorParamKeys.PRESENT) === 'true',
+    pathname,
+    search: search.toString() ? `?${search.toString()}` : '',
+    ...(storage === 'state'
+      ? {
+          state: {
+            [NAVIGATOR_STATE_KEY]: Object.fromEntries(navigatorParams),
+          },
+        }
+      : null),
   }
 }
+
+/**
+ * Identify a history entry
+ * (including navigator params kept in `history.state`)
+ */
+export function getLocationKey(location: {
+  pathname?: string
+  search?: string
+  state?: unknown
+}) {
+  const stateParams = readStateParams(location.state).toString()
+
+  return (
+    (location.pathname ?? '') +
+    (location.search ?? '') +
+    (stateParams ? `#${stateParams}` : '')
+  )
+}
+
+/**
+ * Param keeping the location of the nested navigator named `name`
+ */
+export function getNestedParam(
+  name: string,
+  { keys }: INavigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG
+) {
+  return `${keys.nested}.${name}`
+}
+
+function isNavigatorParam(key: string, { keys }: INavigatorParamsConfig) {
+  return Object.values(keys).includes(key) || key.startsWith(`${keys.nested}.`)
+}
+
+/**
+ * Whether the location keeps locations of nested navigators
+ */
+export function hasNestedParams(
+  location: { search: string },
+  config: INavigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG
+) {
+  return Array.from(new URLSearchParams(location.search).keys()).some((key) =>
+    key.startsWith(`${config.keys.nested}.`)
+  )
+}
+
+/**
+ * Remove navigator params (including the ones of nested navigators)
+ * from querystring params
+ */
+export function omitNavigatorParams<T extends { [key: string]: string }>(
+  params: T,
+  config: INavigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG
+): T {
+  const result = { ...params }
+
+  Object.keys(result).forEach((key) => {
+    if (isNavigatorParam(key, config)) {
+      delete result[key]
+    }
+  })
+
+  return result
+}
+
+/**
+ * Path (with querystring) without navigator params,
+ * as given to navigation guards
+ */
+export function omitNavigatorParamsFromPath(
+  path: string,
+  config: INavigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG
+) {
+  const { pathname, searchParams } = new URL(path, /* dummy */ 'file://')
+
+  Array.from(searchParams.keys()).forEach((key) => {
+    if (isNavigatorParam(key, config)) {
+      searchParams.delete(key)
+    }
+  })
+
+  return pathname + (searchParams.toString() ? `?${searchParams}` : '')
+}
@@ -0,0 +1,70 @@
+import { createMemoryHistory } from 'history'
+
+import { getLocationKey } from './getNavigatorParams'
+import { goHistory } from './goHistory'
+
+function createHistory() {
+  return createMemoryHistory({
+    initialEntries: ['/?_si=a', '/threads?_si=b', '/threads/1?_si=c'],
+    initialIndex: 2,
+  })
+}
+
+describe('goHistory()', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('resolves with `true` when the target location is reached', async () => {
+    const history = createHistory()
+
+    await expect(
+      goHistory(
+        history,
+        -2,
+        getLocationKey({ pathname: '/', search: '?_si=a' })
+      )
+    ).resolves.toBe(true)
+    expect(history.location.pathname).toBe('/')
+  })
+
+  test('keeps waiting on other locations and falls back to `false` in time', async () => {
+    const history = createHistory()
+
+    const result = goHistory(
+      history,
+      -1,
+      getLocationKey({ pathname: '/', search: '?_si=a' })
+    )
+    expect(history.location.pathname).toBe('/threads')
+
+    history.push('/threads/2?_si=d')
+    jest.advanceTimersByTime(1000)
+
+    await expect(result).resolves.toBe(false)
+  })
+
+  test('resolves with `false` when history does not move', async () => {
+    const history = createHistory()
+    history.go = () => {}
+
+    const result = goHistory(
+      history,
+      -1,
+      getLocationKey({ pathname: '/threads', search: '?_si=b' })
+    )
+    jest.advanceTimersByTime(1000)
+
+    await expect(result).resolves.toBe(false)
+  })
+
+  test('resolves on any location without the target', async () => {
+    const history = createHistory()
+
+    await expect(goHistory(history, -1)).resolves.toBe(true)
+  })
+})
@@ -0,0 +1,41 @@
+import { History } from 'history'
+
+import { getLocationKey } from './getNavigatorParams'
+
+/**
+ * How long to wait for the location to change after `history.go()`
+ */
+const HISTORY_GO_TIMEOUT = 1000
+
+/**
+ * `history.go()` resolved with `true` once the location of `targetLocationKey`
+ * is reached (or any location if the key is unknown), or `false` if it isn't
+ * reached in time (e.g. at the edge of history)
+ */
+export function goHistory(
+  history: History,
+  delta: number,
+  targetLocationKey?: string
+) {
+  return new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => {
+      dispose()
+      resolve(false)
+    }, HISTORY_GO_TIMEOUT)
+
+    const dispose = history.listen((location) => {
+      if (
+        targetLocationKey !== undefined &&
+        getLocationKey(location) !== targetLocationKey
+      ) {
+        return
+      }
+
+      clearTimeout(timer)
+      dispose()
+      resolve(true)
+    })
+
+    history.go(delta)
+  })
+}
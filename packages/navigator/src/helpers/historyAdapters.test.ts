@@ -0,0 +1,68 @@
+import { createMemoryHistory } from 'history'
+
+import {
+  createBrowserHistoryAdapter,
+  createCustomRouterHistoryAdapter,
+  createHashHistoryAdapter,
+  createMemoryHistoryAdapter,
+  supportsHistoryState,
+} from './historyAdapters'
+
+describe('history adapters', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/')
+  })
+
+  test('hash adapter keeps the location in the hash of URL', () => {
+    const history = createHashHistoryAdapter().createHistory()
+    history.push('/post?id=1')
+
+    expect(window.location.hash).toBe('#/post?id=1')
+    expect(history.location.pathname).toBe('/post')
+  })
+
+  test('browser adapter keeps the location in the pathname of URL', () => {
+    const history = createBrowserHistoryAdapter().createHistory()
+    history.push('/post?id=1')
+
+    expect(window.location.pathname).toBe('/post')
+    expect(window.location.search).toBe('?id=1')
+  })
+
+  test('memory adapter does not touch URL', () => {
+    const history = createMemoryHistoryAdapter({
+      initialEntries: ['/home'],
+    }).createHistory()
+    history.push('/post')
+
+    expect(history.location.pathname).toBe('/post')
+    expect(window.location.pathname).toBe('/')
+  })
+
+  test('built-in adapters provide a router', () => {
+    expect(createHashHistoryAdapter().provideRouter).toBe(true)
+    expect(createBrowserHistoryAdapter().provideRouter).toBe(true)
+    expect(createMemoryHistoryAdapter().provideRouter).toBe(true)
+  })
+
+  test('custom router adapter reuses the history of the enclosing router', () => {
+    const adapter = createCustomRouterHistoryAdapter()
+    const routerHistory = createMemoryHistory()
+
+    expect(adapter.provideRouter).toBe(false)
+    expect(adapter.createHistory(routerHistory)).toBe(routerHistory)
+    expect(() => adapter.createHistory()).toThrow()
+  })
+
+  test('only hash history drops history.state', () => {
+    expect(
+      supportsHistoryState(createHashHistoryAdapter().createHistory())
+    ).toBe(false)
+    expect(
+      supportsHistoryState(createBrowserHistoryAdapter().createHistory())
+    ).toBe(true)
+    expect(
+      supportsHistoryState(createMemoryHistoryAdapter().createHistory())
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+import {
+  BrowserHistoryBuildOptions,
+  createBrowserHistory,
+  createHashHistory,
+  createMemoryHistory,
+  HashHistoryBuildOptions,
+  History,
+  MemoryHistoryBuildOptions,
+} from 'history'
+
+import { IHistoryAdapter } from '../types'
+
+/**
+ * Stores the navigation state in the hash part of URL (default)
+ */
+export function createHashHistoryAdapter(
+  options?: HashHistoryBuildOptions
+): IHistoryAdapter {
+  return {
+    createHistory: () => createHashHistory(options),
+    provideRouter: true,
+  }
+}
+
+/**
+ * Stores the navigation state in the pathname of URL
+ * (server should serve the app on every screen path)
+ */
+export function createBrowserHistoryAdapter(
+  options?: BrowserHistoryBuildOptions
+): IHistoryAdapter {
+  return {
+    createHistory: () => createBrowserHistory(options),
+    provideRouter: true,
+  }
+}
+
+/**
+ * Keeps the navigation state in memory without touching URL
+ * (webviews that forbid URL changes, Storybook, unit tests)
+ */
+export function createMemoryHistoryAdapter(
+  options?: MemoryHistoryBuildOptions
+): IHistoryAdapter {
+  return {
+    createHistory: () => createMemoryHistory(options),
+    provideRouter: true,
+  }
+}
+
+/**
+ * Whether `history` keeps `history.state`
+ * (hash history drops it, and its hrefs point after `#`)
+ */
+export function supportsHistoryState(history: History) {
+  return !history.createHref({ pathname: '/' }).includes('#')
+}
+
+/**
+ * Uses the `history` of your own custom `<Router />`
+ */
+export function createCustomRouterHistoryAdapter(): IHistoryAdapter {
+  return {
+    createHistory(routerHistory) {
+      if (!routerHistory) {
+        throw new Error(
+          'Custom router history adapter requires `<Router />` above `<Navigator />`'
+        )
+      }
+      return routerHistory
+    },
+    provideRouter: false,
+  }
+}
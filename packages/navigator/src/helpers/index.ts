@@ -1 +1,17 @@
+export * from './chainNavigationGuards'
+export * from './claimNavigatorUrl'
+export * from './createMockNavigatorBridge'
+export * from './createScreenInstanceId'
+export * from './createSharedElementRegistry'
+export * from './createTransitionEmitter'
+export * from './gestures'
 export * from './getNavigatorParams'
+export * from './goHistory'
+export * from './historyAdapters'
+export * from './makeTokenVars'
+export * from './makeTransitionEvent'
+export * from './queryParams'
+export * from './scopedHistory'
+export * from './stackSnapshot'
+export * from './themes'
+export * from './transitions'
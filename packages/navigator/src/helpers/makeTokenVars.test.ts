@@ -0,0 +1,46 @@
+import { makeTokenVars } from './makeTokenVars'
+
+const contract = {
+  backgroundColor: 'var(--background-color)',
+  navbar: {
+    height: 'var(--navbar-height)',
+    center: {
+      fontSize: 'var(--navbar-center-font-size)',
+    },
+  },
+}
+
+describe('makeTokenVars()', () => {
+  test('maps tokens to the CSS variables of the contract', () => {
+    expect(
+      makeTokenVars(contract, {
+        backgroundColor: '#fff',
+        navbar: {
+          height: '3rem',
+          center: { fontSize: '1rem' },
+        },
+      })
+    ).toEqual({
+      'var(--background-color)': '#fff',
+      'var(--navbar-height)': '3rem',
+      'var(--navbar-center-font-size)': '1rem',
+    })
+  })
+
+  test('maps only the given tokens', () => {
+    expect(makeTokenVars(contract, { navbar: { height: '3rem' } })).toEqual({
+      'var(--navbar-height)': '3rem',
+    })
+    expect(makeTokenVars(contract, undefined)).toEqual({})
+  })
+
+  test('ignores tokens unknown to the contract or of another shape', () => {
+    expect(
+      makeTokenVars(contract, {
+        unknown: '1px',
+        backgroundColor: { light: '#fff' },
+        navbar: '3rem',
+      })
+    ).toEqual({})
+  })
+})
@@ -0,0 +1,30 @@
+interface ITokenContract {
+  [key: string]: string | ITokenContract
+}
+
+/**
+ * Map (partial) tokens to the CSS variables of the contract
+ * (to be passed to `assignInlineVars()`)
+ */
+export function makeTokenVars(
+  contract: ITokenContract,
+  tokens: object | undefined
+): { [cssVar: string]: string } {
+  const vars: { [cssVar: string]: string } = {}
+
+  Object.entries(tokens ?? {}).forEach(([key, value]) => {
+    const token = contract[key]
+
+    if (typeof token === 'string' && typeof value === 'string') {
+      vars[token] = value
+    } else if (
+      typeof token === 'object' &&
+      value &&
+      typeof value === 'object'
+    ) {
+      Object.assign(vars, makeTokenVars(token, value))
+    }
+  })
+
+  return vars
+}
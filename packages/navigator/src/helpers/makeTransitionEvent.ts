@@ -0,0 +1,32 @@
+import { IScreenInstance } from '../store'
+import { ITransitionEvent, ITransitionEventScreen } from '../types'
+
+function toEventScreen(
+  screenInstance: IScreenInstance | undefined
+): ITransitionEventScreen | null {
+  return screenInstance
+    ? {
+        screenInstanceId: screenInstance.id,
+        screenId: screenInstance.screenId,
+        path: screenInstance.as,
+      }
+    : null
+}
+
+export function makeTransitionEvent({
+  screenInstances,
+  fromIndex,
+  toIndex,
+  direction,
+}: {
+  screenInstances: IScreenInstance[]
+  fromIndex: number
+  toIndex: number
+  direction: ITransitionEvent['direction']
+}): ITransitionEvent {
+  return {
+    from: toEventScreen(screenInstances[fromIndex]),
+    to: toEventScreen(screenInstances[toIndex]),
+    direction,
+  }
+}
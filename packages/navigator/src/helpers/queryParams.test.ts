@@ -0,0 +1,80 @@
+import { parseQueryParams, writeQueryParams } from './queryParams'
+
+describe('parseQueryParams()', () => {
+  const schema = {
+    q: { type: 'string' as const },
+    page: { type: 'number' as const, default: 1 },
+    dark: { type: 'boolean' as const },
+    tags: { type: 'array' as const, default: [] },
+    sort: {
+      type: 'enum' as const,
+      values: ['new', 'popular'],
+      default: 'new',
+    },
+  }
+
+  test('coerces values by the type of each key', () => {
+    expect(
+      parseQueryParams(
+        schema,
+        new URLSearchParams('q=hi&page=2&dark=1&tags=a&tags=b&sort=popular')
+      )
+    ).toEqual({
+      q: 'hi',
+      page: 2,
+      dark: true,
+      tags: ['a', 'b'],
+      sort: 'popular',
+    })
+  })
+
+  test('falls back to default for missing or invalid values', () => {
+    expect(
+      parseQueryParams(
+        schema,
+        new URLSearchParams('page=two&dark=yes&sort=old&extra=1')
+      )
+    ).toEqual({
+      q: undefined,
+      page: 1,
+      dark: undefined,
+      tags: [],
+      sort: 'new',
+    })
+  })
+
+  test('reads false, zero and an empty string as values', () => {
+    expect(
+      parseQueryParams(schema, new URLSearchParams('q=&page=0&dark=false'))
+    ).toMatchObject({ q: '', page: 0, dark: false })
+    expect(
+      parseQueryParams(schema, new URLSearchParams('page=%20&dark=0'))
+    ).toMatchObject({ page: 1, dark: false })
+  })
+})
+
+describe('writeQueryParams()', () => {
+  test('writes only the given keys', () => {
+    const searchParams = new URLSearchParams('q=hi&page=1&_si=a')
+
+    writeQueryParams(searchParams, { page: 2, dark: true })
+
+    expect(searchParams.toString()).toBe('q=hi&_si=a&page=2&dark=true')
+  })
+
+  test('writes an array as repeated keys', () => {
+    const searchParams = new URLSearchParams('tags=a')
+
+    writeQueryParams(searchParams, { tags: ['b', 'c'] })
+
+    expect(searchParams.getAll('tags')).toEqual(['b', 'c'])
+  })
+
+  test('removes a key for undefined or null', () => {
+    const searchParams = new URLSearchParams('q=hi&page=1&dark=true')
+
+    writeQueryParams(searchParams, { q: undefined, page: null })
+
+    expect(searchParams.toString()).toBe('dark=true')
+  })
+})
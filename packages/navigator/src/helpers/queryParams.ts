@@ -0,0 +1,77 @@
+import { IQueryParamDescriptor, IQueryParamsSchema } from '../types'
+
+function coerce(
+  descriptor: IQueryParamDescriptor,
+  searchParams: URLSearchParams,
+  key: string
+) {
+  if (descriptor.type === 'array') {
+    const values = searchParams.getAll(key)
+    return values.length > 0 ? values : undefined
+  }
+
+  const value = searchParams.get(key)
+  if (value === null) {
+    return undefined
+  }
+
+  switch (descriptor.type) {
+    case 'number': {
+      const num = Number(value)
+      return value.trim() !== '' && !isNaN(num) ? num : undefined
+    }
+    case 'boolean': {
+      return value === 'true' || value === '1'
+        ? true
+        : value === 'false' || value === '0'
+        ? false
+        : undefined
+    }
+    case 'enum': {
+      return descriptor.values.includes(value) ? value : undefined
+    }
+    default: {
+      return value
+    }
+  }
+}
+
+/**
+ * Read querystring by schema
+ */
+export function parseQueryParams(
+  schema: IQueryParamsSchema,
+  searchParams: URLSearchParams
+) {
+  const queryParams: { [key: string]: unknown } = {}
+
+  Object.keys(schema).forEach((key) => {
+    const descriptor = schema[key]
+    queryParams[key] =
+      coerce(descriptor, searchParams, key) ?? descriptor.default
+  })
+
+  return queryParams
+}
+
+/**
+ * Write `patch` to `searchParams` (keys not in `patch` are kept)
+ */
+export function writeQueryParams(
+  searchParams: URLSearchParams,
+  patch: { [key: string]: unknown }
+) {
+  Object.keys(patch).forEach((key) => {
+    const value = patch[key]
+
+    searchParams.delete(key)
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => {
+        searchParams.append(key, String(item))
+      })
+    } else if (value !== undefined && value !== null) {
+      searchParams.set(key, String(value))
+    }
+  })
+}
@@ -0,0 +1,114 @@
+import { createMemoryHistory } from 'history'
+
+import { createScopedHistory } from './scopedHistory'
+
+const param = '_nested.tab'
+
+function getParam(search: string) {
+  return new URLSearchParams(search).get(param)
+}
+
+describe('createScopedHistory()', () => {
+  test('reads the location from the param of the enclosing location', () => {
+    const parent = createMemoryHistory({
+      initialEntries: ['/tabs?_si=a&_nested.tab=%2Fposts%3Fid%3D1'],
+    })
+    const history = createScopedHistory(parent, { param })
+
+    expect(history.location.pathname).toBe('/posts')
+    expect(history.location.search).toBe('?id=1')
+  })
+
+  test('pushes as a nested route of the enclosing screen', () => {
+    const parent = createMemoryHistory({
+      initialEntries: ['/tabs?_si=a&q=1&_nested.other=%2F'],
+    })
+    const history = createScopedHistory(parent, { param })
+
+    history.push('/posts?_si=b')
+
+    expect(parent.length).toBe(2)
+    expect(parent.location.pathname).toBe('/tabs')
+    expect(getParam(parent.location.search)).toBe('/posts?_si=b')
+
+    const searchParams = new URLSearchParams(parent.location.search)
+    expect(searchParams.get('_si')).toBeNull()
+    expect(searchParams.get('q')).toBe('1')
+    expect(searchParams.get('_nested.other')).toBe('/')
+  })
+
+  test('keeps the params of the enclosing location on replace', () => {
+    const parent = createMemoryHistory({ initialEntries: ['/tabs?_si=a'] })
+    const history = createScopedHistory(parent, { param })
+
+    history.replace('/?_si=b')
+
+    expect(parent.length).toBe(1)
+    expect(new URLSearchParams(parent.location.search).get('_si')).toBe('a')
+    expect(getParam(parent.location.search)).toBe('/?_si=b')
+  })
+
+  test('keeps the state apart from the ones of other navigators', () => {
+    const parent = createMemoryHistory({ initialEntries: ['/tabs'] })
+    const history = createScopedHistory(parent, { param })
+
+    history.push('/posts', { id: 1 })
+
+    expect(history.location.state).toEqual({ id: 1 })
+    expect(createScopedHistory(parent, { param }).location.state).toEqual({
+      id: 1,
+    })
+    expect(
+      createScopedHistory(parent, { param: '_nested.other' }).location.state
+    ).toBeUndefined()
+  })
+
+  test('notifies listeners of the changes of its own location', () => {
+    const parent = createMemoryHistory({ initialEntries: ['/tabs?_si=a'] })
+    const history = createScopedHistory(parent, { param })
+    const listener = jest.fn()
+
+    const unlisten = history.listen(listener)
+
+    history.push('/posts')
+    parent.replace('/tabs?_si=a&_nested.tab=%2Fposts&q=1')
+    parent.goBack()
+
+    expect(
+      listener.mock.calls.map(([location, action]) => [
+        location.pathname,
+        action,
+      ])
+    ).toEqual([
+      ['/posts', 'PUSH'],
+      ['/', 'POP'],
+    ])
+
+    unlisten()
+    history.push('/posts')
+
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  test('ignores the locations of other screens than the host', () => {
+    const parent = createMemoryHistory({
+      initialEntries: ['/tabs?_si=a&_nested.tab=%2Fposts'],
+    })
+    const history = createScopedHistory(parent, {
+      param,
+      host: { screenInstanceId: 'a', as: '/tabs' },
+    })
+    const listener = jest.fn()
+    history.listen(listener)
+
+    parent.push('/settings?_si=b')
+    parent.push('/tabs?_si=c')
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(history.location.pathname).toBe('/posts')
+
+    parent.go(-2)
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,225 @@
+import {
+  Action,
+  createLocation,
+  createPath,
+  History,
+  Location,
+  LocationDescriptor,
+  LocationListener,
+} from 'history'
+import compare from 'react-fast-compare'
+
+import {
+  DEFAULT_NAVIGATOR_PARAMS_CONFIG,
+  getNavigatorParams,
+  INavigatorParamsConfig,
+} from './getNavigatorParams'
+
+/**
+ * Field of `history.state` where the states of nested navigators are kept
+ */
+const NESTED_STATE_KEY = 'kf_nested'
+
+type INestedStates = { [param: string]: unknown }
+
+function readNestedStates(state: unknown): INestedStates {
+  const states = (state as { [NESTED_STATE_KEY]?: unknown } | null)?.[
+    NESTED_STATE_KEY
+  ]
+
+  return states && typeof states === 'object' ? (states as INestedStates) : {}
+}
+
+/**
+ * History of a nested navigator, kept in `param` of the locations
+ * of the enclosing history.
+ *
+ * Pushed entries drop the navigator params of the enclosing location,
+ * so that the enclosing navigator counts them as nested routes of
+ * the host screen (and its back button or browser back pops them first)
+ */
+export function createScopedHistory(
+  parent: History,
+  {
+    param,
+    host,
+    navigatorParamsConfig = DEFAULT_NAVIGATOR_PARAMS_CONFIG,
+  }: {
+    param: string
+    /**
+     * Screen instance of the enclosing navigator rendering the nested one
+     */
+    host?: { screenInstanceId: string; as: string } | null
+    navigatorParamsConfig?: INavigatorParamsConfig
+  }
+): History {
+  /**
+   * Locations of other screens (e.g. pushed above the host) are ignored
+   */
+  const isHostLocation = (parentLocation: Location) => {
+    if (!host) {
+      return true
+    }
+
+    const { screenInstanceId } = getNavigatorParams(
+      parentLocation,
+      navigatorParamsConfig
+    )
+
+    return (
+      parentLocation.pathname === host.as &&
+      (!screenInstanceId || screenInstanceId === host.screenInstanceId)
+    )
+  }
+
+  const read = (parentLocation: Location): Location =>
+    createLocation(
+      new URLSearchParams(parentLocation.search).get(param) ?? '/',
+      readNestedStates(parentLocation.state)[param]
+    )
+
+  const write = (
+    to: LocationDescriptor,
+    state: unknown,
+    method: 'push' | 'replace'
+  ) => {
+    const location = createLocation(to, state, undefined, scoped.location)
+    const parentLocation = parent.location
+    const searchParams = new URLSearchParams(parentLocation.search)
+
+    if (method === 'push') {
+      Object.values(navigatorParamsConfig.keys).forEach((key) => {
+        searchParams.delete(key)
+      })
+    }
+    searchParams.set(
+      param,
+      createPath({
+        pathname: location.pathname,
+        search: location.search,
+        hash: location.hash,
+      })
+    )
+
+    const nestedStates = {
+      ...readNestedStates(parentLocation.state),
+      [param]: location.state,
+    }
+    const nestedState = Object.values(nestedStates).some(
+      (state) => state !== undefined
+    )
+      ? { [NESTED_STATE_KEY]: nestedStates }
+      : undefined
+
+    /**
+     * State is added only when needed (hash history can't keep it)
+     */
+    return {
+      pathname: parentLocation.pathname,
+      search: `?${searchParams}`,
+      state:
+        method === 'push'
+          ? nestedState
+          : nestedState
+          ? { ...(parentLocation.state as object | null), ...nestedState }
+          : parentLocation.state,
+    }
+  }
+
+  const listeners = new Set<LocationListener>()
+  let unlisten: (() => void) | null = null
+
+  let location = isHostLocation(parent.location)
+    ? read(parent.location)
+    : createLocation('/')
+  let action: Action = 'POP'
+
+  /**
+   * Read again while not following the enclosing history
+   */
+  const sync = () => {
+    if (!unlisten && isHostLocation(parent.location)) {
+      location = read(parent.location)
+    }
+  }
+
+  const listenParent = () =>
+    parent.listen((parentLocation, parentAction) => {
+      if (!isHostLocation(parentLocation)) {
+        return
+      }
+
+      const nextLocation = read(parentLocation)
+
+      if (
+        createPath(nextLocation) === createPath(location) &&
+        compare(nextLocation.state, location.state)
+      ) {
+        return
+      }
+
+      location = nextLocation
+      action = parentAction
+
+      listeners.forEach((listener) => {
+        listener(nextLocation, parentAction)
+      })
+    })
+
+  const scoped: History = {
+    get length() {
+      return parent.length
+    },
+    get action() {
+      return action
+    },
+    get location() {
+      sync()
+      return location
+    },
+    push(to: LocationDescriptor, state?: unknown) {
+      parent.push(write(to, state, 'push'))
+    },
+    replace(to: LocationDescriptor, state?: unknown) {
+      parent.replace(write(to, state, 'replace'))
+    },
+    go(n) {
+      parent.go(n)
+    },
+    goBack() {
+      parent.goBack()
+    },
+    goForward() {
+      parent.goForward()
+    },
+    block(prompt) {
+      return parent.block(prompt)
+    },
+    listen(listener) {
+      listeners.add(listener)
+
+      /**
+       * Follow the enclosing history only while listened,
+       * so that an unmounted navigator doesn't leak
+       */
+      if (!unlisten) {
+        sync()
+        unlisten = listenParent()
+      }
+
+      return () => {
+        listeners.delete(listener)
+
+        if (listeners.size === 0 && unlisten) {
+          unlisten()
+          unlisten = null
+        }
+      }
+    },
+    createHref(location) {
+      return parent.createHref(write(location, location.state, 'push'))
+    },
+  }
+
+  return scoped
+}
@@ -0,0 +1,90 @@
+import { IStackStorage } from '../types'
+import {
+  getStackSnapshotKey,
+  IStackSnapshot,
+  readStackSnapshot,
+  writeStackSnapshot,
+} from './stackSnapshot'
+
+function createStorage(): IStackStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+  }
+}
+
+const snapshot: IStackSnapshot = {
+  screenInstances: [
+    {
+      id: 'a',
+      screenId: '/',
+      nestedRouteCount: 0,
+      present: false,
+      as: '/',
+    },
+  ],
+  screenInstancePtr: 0,
+  locationKeyStack: ['/?_si=a'],
+}
+
+describe('stackSnapshot', () => {
+  test('keeps the original key for the outermost navigator without name', () => {
+    expect(getStackSnapshotKey([''])).toBe('kf_navigator_stack')
+  })
+
+  test('namespaces the key by the names of navigators', () => {
+    expect(getStackSnapshotKey(['', 'feed'])).toBe('kf_navigator_stack:feed')
+    expect(getStackSnapshotKey(['app', 'feed'])).toBe(
+      'kf_navigator_stack:app:feed'
+    )
+  })
+
+  test('reads the snapshot written with the same key', () => {
+    const storage = createStorage()
+
+    writeStackSnapshot(storage, snapshot, 'kf_navigator_stack:feed')
+
+    expect(readStackSnapshot(storage, 'kf_navigator_stack:feed')).toEqual(
+      snapshot
+    )
+    expect(readStackSnapshot(storage)).toBeNull()
+  })
+
+  test('navigators with different names do not overwrite each other', () => {
+    const storage = createStorage()
+    const other = { ...snapshot, screenInstancePtr: 1 }
+
+    writeStackSnapshot(storage, snapshot, getStackSnapshotKey(['', 'feed']))
+    writeStackSnapshot(storage, other, getStackSnapshotKey(['', 'chat']))
+
+    expect(
+      readStackSnapshot(storage, getStackSnapshotKey(['', 'feed']))
+    ).toEqual(snapshot)
+    expect(
+      readStackSnapshot(storage, getStackSnapshotKey(['', 'chat']))
+    ).toEqual(other)
+  })
+
+  test('ignores broken snapshots and storage errors', () => {
+    const storage = createStorage()
+    storage.items.set('kf_navigator_stack', '{')
+
+    expect(readStackSnapshot(storage)).toBeNull()
+    expect(() =>
+      writeStackSnapshot(
+        {
+          getItem: () => null,
+          setItem: () => {
+            throw new Error('QuotaExceededError')
+          },
+        },
+        snapshot
+      )
+    ).not.toThrow()
+  })
+})
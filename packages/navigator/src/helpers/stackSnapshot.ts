@@ -0,0 +1,53 @@
+import { GlobalState, IScreenInstance } from '../store'
+import { IStackStorage } from '../types'
+
+const STACK_SNAPSHOT_KEY = 'kf_navigator_stack'
+
+export interface IStackSnapshot {
+  screenInstances: IScreenInstance[]
+  screenInstancePtr: number
+  locationKeyStack: string[]
+  screenInstanceSnapshots?: GlobalState['screenInstanceSnapshots']
+}
+
+/**
+ * Storage key of the snapshot, namespaced by the names of navigators
+ * (the outermost navigator without name keeps the original key)
+ */
+export function getStackSnapshotKey(navigatorPath: string[]) {
+  return [STACK_SNAPSHOT_KEY, ...navigatorPath]
+    .filter((name) => name !== '')
+    .join(':')
+}
+
+export function getDefaultStackStorage(): IStackStorage | null {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage : null
+  } catch {
+    return null
+  }
+}
+
+export function readStackSnapshot(
+  storage: IStackStorage,
+  key = STACK_SNAPSHOT_KEY
+): IStackSnapshot | null {
+  try {
+    const item = storage.getItem(key)
+    return item ? JSON.parse(item) : null
+  } catch {
+    return null
+  }
+}
+
+export function writeStackSnapshot(
+  storage: IStackStorage,
+  snapshot: IStackSnapshot,
+  key = STACK_SNAPSHOT_KEY
+) {
+  try {
+    storage.setItem(key, JSON.stringify(snapshot))
+  } catch {
+    // Ignore quota or security errors
+  }
+}
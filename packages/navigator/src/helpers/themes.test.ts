@@ -0,0 +1,87 @@
+import { vars } from '../Navigator.css'
+import { makeTokenVars } from './makeTokenVars'
+import {
+  builtInThemes,
+  detectThemeFromUserAgent,
+  getThemeFromUserAgent,
+  resolveTheme,
+} from './themes'
+
+describe('getThemeFromUserAgent()', () => {
+  test('tells the theme from the platform', () => {
+    expect(
+      getThemeFromUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 15_0 like Mac OS X) AppleWebKit/605.1.15'
+      )
+    ).toBe('Cupertino')
+    expect(
+      getThemeFromUserAgent(
+        'Mozilla/5.0 (Linux; Android 12; Pixel 6) AppleWebKit/537.36'
+      )
+    ).toBe('Android')
+    expect(
+      getThemeFromUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      )
+    ).toBe('Web')
+  })
+})
+
+describe('detectThemeFromUserAgent()', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('detects iPadOS reporting itself as Macintosh', () => {
+    jest
+      .spyOn(navigator, 'userAgent', 'get')
+      .mockReturnValue(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15'
+      )
+    let maxTouchPoints = 5
+    Object.defineProperty(navigator, 'maxTouchPoints', {
+      configurable: true,
+      get: () => maxTouchPoints,
+    })
+
+    expect(detectThemeFromUserAgent()).toBe('Cupertino')
+
+    maxTouchPoints = 0
+
+    expect(detectThemeFromUserAgent()).toBe('Web')
+
+    delete (navigator as { maxTouchPoints?: number }).maxTouchPoints
+  })
+})
+
+describe('resolveTheme()', () => {
+  test('decides auto with the detector', () => {
+    const detector = jest.fn(() => 'Cupertino' as const)
+
+    expect(resolveTheme('auto', detector)).toBe(builtInThemes.Cupertino)
+    expect(detector).toHaveBeenCalledTimes(1)
+  })
+
+  test('looks up a name and returns a definition as is', () => {
+    const detector = jest.fn(() => 'Cupertino' as const)
+    const definition = { ...builtInThemes.Android, animationDuration: 100 }
+
+    expect(resolveTheme('Web', detector)).toBe(builtInThemes.Web)
+    expect(resolveTheme(definition, detector)).toBe(definition)
+    expect(detector).not.toHaveBeenCalled()
+  })
+})
+
+describe('builtInThemes', () => {
+  test('give the Web theme its own navbar', () => {
+    const { Web } = builtInThemes
+
+    expect(makeTokenVars(vars, { navbar: Web.navbar })).toEqual({
+      [vars.navbar.height]: '4rem',
+      [vars.navbar.padding]: '1.5rem',
+    })
+    expect(Web.titleAlign).toBe('left')
+    expect(Web.dim).toBe('full')
+    expect(Web.swipeBack).toBe(false)
+  })
+})
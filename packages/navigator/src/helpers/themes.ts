@@ -0,0 +1,82 @@
+import {
+  INavigatorTheme,
+  INavigatorThemeDefinition,
+  INavigatorThemeDetector,
+} from '../types'
+
+export const builtInThemes: {
+  [name in INavigatorTheme]: INavigatorThemeDefinition
+} = {
+  Android: {
+    layout: 'Android',
+    titleAlign: 'left',
+    dim: 'gradient',
+    animationDuration: 270,
+    swipeBack: false,
+  },
+  Cupertino: {
+    layout: 'Cupertino',
+    titleAlign: 'center',
+    dim: 'full',
+    animationDuration: 350,
+    swipeBack: true,
+  },
+  Web: {
+    layout: 'Android',
+    titleAlign: 'left',
+    dim: 'full',
+    transition: {
+      current: {
+        from: { opacity: 0 },
+        to: { opacity: 1 },
+      },
+      underneath: {
+        from: { opacity: 1 },
+        to: { opacity: 0 },
+      },
+    },
+    animationDuration: 200,
+    navbar: {
+      height: '4rem',
+      padding: '1.5rem',
+    },
+    swipeBack: false,
+  },
+}
+
+export function getThemeFromUserAgent(userAgent: string): INavigatorTheme {
+  if (/iPhone|iPad|iPod/i.test(userAgent)) {
+    return 'Cupertino'
+  }
+  if (/Android/i.test(userAgent)) {
+    return 'Android'
+  }
+
+  return 'Web'
+}
+
+export const detectThemeFromUserAgent: INavigatorThemeDetector = () => {
+  if (typeof navigator === 'undefined') {
+    return 'Android'
+  }
+
+  /**
+   * iPadOS reports itself as Macintosh
+   */
+  if (/Macintosh/i.test(navigator.userAgent) && navigator.maxTouchPoints > 1) {
+    return 'Cupertino'
+  }
+
+  return getThemeFromUserAgent(navigator.userAgent)
+}
+
+export function resolveTheme(
+  theme: INavigatorTheme | 'auto' | INavigatorThemeDefinition,
+  detector: INavigatorThemeDetector = detectThemeFromUserAgent
+): INavigatorThemeDefinition {
+  if (theme === 'auto') {
+    return builtInThemes[detector()]
+  }
+
+  return typeof theme === 'string' ? builtInThemes[theme] : theme
+}
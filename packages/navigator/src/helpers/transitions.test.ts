@@ -0,0 +1,81 @@
+import {
+  builtInTransitions,
+  interpolateTransitionStyle,
+  resolveTransition,
+  toTransitionCSS,
+} from './transitions'
+
+describe('resolveTransition()', () => {
+  const custom = {
+    current: { from: { scale: 0.9 }, to: { scale: 1 } },
+  }
+  const transitions = { ...builtInTransitions, custom }
+
+  test('looks up a name in the registered transitions', () => {
+    expect(resolveTransition('fade', transitions)).toBe(builtInTransitions.fade)
+    expect(resolveTransition('custom', transitions)).toBe(custom)
+  })
+
+  test('returns a definition as is', () => {
+    expect(resolveTransition(custom, {})).toBe(custom)
+  })
+
+  test('falls back to the theme for an unknown name or nothing', () => {
+    expect(resolveTransition('unknown', transitions)).toBeUndefined()
+    expect(resolveTransition(null, transitions)).toBeUndefined()
+    expect(resolveTransition(undefined, transitions)).toBeUndefined()
+  })
+})
+
+describe('interpolateTransitionStyle()', () => {
+  test('interpolates between both ends', () => {
+    const from = { opacity: 0, translateX: 10 }
+    const to = { opacity: 1, translateX: 0 }
+
+    expect(interpolateTransitionStyle(from, to, 0)).toEqual({
+      opacity: 0,
+      translateX: 10,
+      translateY: 0,
+      scale: 1,
+    })
+    expect(interpolateTransitionStyle(from, to, 0.5)).toEqual({
+      opacity: 0.5,
+      translateX: 5,
+      translateY: 0,
+      scale: 1,
+    })
+    expect(interpolateTransitionStyle(from, to, 1)).toEqual({
+      opacity: 1,
+      translateX: 0,
+      translateY: 0,
+      scale: 1,
+    })
+  })
+
+  test('treats missing properties as the identity style', () => {
+    expect(interpolateTransitionStyle({}, { scale: 0.5 }, 0.5)).toEqual({
+      opacity: 1,
+      translateX: 0,
+      translateY: 0,
+      scale: 0.75,
+    })
+  })
+})
+
+describe('toTransitionCSS()', () => {
+  test('writes translations as percentages', () => {
+    expect(
+      toTransitionCSS({ opacity: 0.5, translateY: 100, scale: 0.9 })
+    ).toEqual({
+      opacity: '0.5',
+      transform: 'translate(0%, 100%) scale(0.9)',
+    })
+  })
+
+  test('writes the identity style for an empty style', () => {
+    expect(toTransitionCSS(builtInTransitions.none.current.from)).toEqual({
+      opacity: '1',
+      transform: 'translate(0%, 0%) scale(1)',
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { ITransition, ITransitionStyle } from '../types'
+
+export const builtInTransitions: { [name: string]: ITransition } = {
+  none: {
+    current: {
+      from: {},
+      to: {},
+    },
+    duration: 0,
+  },
+  fade: {
+    current: {
+      from: { opacity: 0 },
+      to: { opacity: 1 },
+    },
+  },
+  'slide-up': {
+    current: {
+      from: { translateY: 100 },
+      to: { translateY: 0 },
+    },
+    easing: 'cubic-bezier(0.2, 0, 0, 1)',
+  },
+  'shared-axis': {
+    current: {
+      from: { opacity: 0, translateX: 10 },
+      to: { opacity: 1, translateX: 0 },
+    },
+    underneath: {
+      from: { opacity: 1, translateX: 0 },
+      to: { opacity: 0, translateX: -10 },
+    },
+    easing: 'cubic-bezier(0.4, 0, 0.2, 1)',
+  },
+}
+
+/**
+ * Resolve a transition name or definition
+ * (`undefined` falls back to the transition of the theme)
+ */
+export function resolveTransition(
+  transition: ITransition | string | null | undefined,
+  transitions: { [name: string]: ITransition }
+): ITransition | undefined {
+  return typeof transition === 'string'
+    ? transitions[transition]
+    : transition ?? undefined
+}
+
+/**
+ * Style between `from` (p = 0) and `to` (p = 1)
+ */
+export function interpolateTransitionStyle(
+  from: ITransitionStyle,
+  to: ITransitionStyle,
+  p: number
+): Required<ITransitionStyle> {
+  const lerp = (a: number, b: number) => a + (b - a) * p
+
+  return {
+    opacity: lerp(from.opacity ?? 1, to.opacity ?? 1),
+    translateX: lerp(from.translateX ?? 0, to.translateX ?? 0),
+    translateY: lerp(from.translateY ?? 0, to.translateY ?? 0),
+    scale: lerp(from.scale ?? 1, to.scale ?? 1),
+  }
+}
+
+export function toTransitionCSS(style: ITransitionStyle) {
+  return {
+    opacity: `${style.opacity ?? 1}`,
+    transform: `translate(${style.translateX ?? 0}%, ${
+      style.translateY ?? 0
+    }%) scale(${style.scale ?? 1})`,
+  }
+}
@@ -1,2 +1,5 @@
 export * from './useHistoryEffect'
+export * from './useIsomorphicLayoutEffect'
+export * from './useNavigationGuard'
+export * from './useScrollSnapshot'
 export * from './useUniqueId'
@@ -1,42 +1,64 @@
 import { Action, Location } from 'history'
-import { DependencyList, useEffect, useRef } from 'react'
-import { useHistory, useLocation } from 'react-router-dom'
+import { DependencyList, MutableRefObject, useEffect, useRef } from 'react'
 
-import { getNavigatorParams } from '../helpers'
+import { useHistory, useLocation, useNavigatorParamsConfig } from '../contexts'
+import { getLocationKey, getNavigatorParams } from '../helpers'
 
 export function useHistoryPopEffect(
   callbacks: {
     forward: (location: Location<unknown>, action: Action) => void
+    /**
+     * Return `false` to keep the location keys
+     * (e.g. the entries are restored by `history.go(depth)`)
+     */
     backward: (
       location: Location<unknown>,
       action: Action,
-      depth: number
-    ) => void
+      depth: number,
+      prevLocation: Location<unknown>
+    ) => boolean | void
   },
-  deps?: DependencyList | undefined
+  deps?: DependencyList | undefined,
+  /**
+   * Share the stack of location keys (e.g. to persist it)
+   */
+  locationKeyStackRef?: MutableRefObject<string[]>
 ) {
   const history = useHistory()
   const location = useLocation()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
 
-  const locationKeyStack = useRef<string[]>([])
+  const ownLocationKeyStack = useRef<string[]>([])
+  const locationKeyStack = locationKeyStackRef ?? ownLocationKeyStack
+  const prevLocationRef = useRef(history.location)
 
   useEffect(() => {
-    if (locationKeyStack.current.length > 0 || !location.search) {
+    if (locationKeyStack.current.length > 0) {
       return
     }
 
-    const searchParams = new URLSearchParams(location.search)
-    const { screenInstanceId } = getNavigatorParams(searchParams)
+    const { screenInstanceId } = getNavigatorParams(
+      location,
+      navigatorParamsConfig
+    )
     if (!screenInstanceId) {
       return
     }
 
-    locationKeyStack.current = [location.pathname + location.search]
-  }, [location.search])
+    locationKeyStack.current = [getLocationKey(location)]
+  }, [location])
 
   useEffect(() => {
+    /**
+     * Seeded when subscribed, as the stack may have been built
+     * on history since rendered (e.g. by `initialStack`)
+     */
+    prevLocationRef.current = history.location
+
     return history.listen((location, action) => {
-      const locationKey = location.pathname + location.search
+      const locationKey = getLocationKey(location)
+      const prevLocation = prevLocationRef.current
+      prevLocationRef.current = location
 
       switch (action) {
         case 'PUSH': {
@@ -58,11 +80,16 @@ export function useHistoryPopEffect(
             (key) => key === locationKey
           )
           if (ptr > -1) {
-            const depth = locationKeyStack.current.length - ptr
-            locationKeyStack.current = locationKeyStack.current.filter(
-              (_, idx) => idx <= ptr
-            )
-            callbacks.backward?.(location, action, depth)
+            const keys = locationKeyStack.current
+            const depth = keys.length - 1 - ptr
+            locationKeyStack.current = keys.filter((_, idx) => idx <= ptr)
+
+            if (
+              callbacks.backward?.(location, action, depth, prevLocation) ===
+              false
+            ) {
+              locationKeyStack.current = keys
+            }
           } else {
             locationKeyStack.current.push(locationKey)
             callbacks.forward?.(location, action)
@@ -78,16 +105,15 @@ export function useHistoryPushEffect(
   deps?: DependencyList | undefined
 ) {
   const history = useHistory()
-  const location = useLocation()
   const locationKeyStack = useRef<string[]>([])
 
   useEffect(() => {
-    locationKeyStack.current = [location.pathname + location.search]
+    locationKeyStack.current = [getLocationKey(history.location)]
   }, [])
 
   useEffect(() => {
     return history.listen((location, action) => {
-      const locationKey = location.pathname + location.search
+      const locationKey = getLocationKey(location)
 
       switch (action) {
         case 'PUSH': {
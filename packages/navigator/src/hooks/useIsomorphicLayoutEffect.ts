@@ -0,0 +1,7 @@
+import { useEffect, useLayoutEffect } from 'react'
+
+/**
+ * `useLayoutEffect` that does not warn on the server
+ */
+export const useIsomorphicLayoutEffect =
+  typeof window !== 'undefined' ? useLayoutEffect : useEffect
@@ -0,0 +1,149 @@
+import { act } from '@testing-library/react'
+
+import { flush, renderNavigator } from '../_test/renderNavigator'
+
+const screens = {
+  '/': () => null,
+  '/threads': () => null,
+  '/threads/:threadId': () => null,
+}
+
+/**
+ * Push `entries` before `beforeEach` takes effect
+ */
+function renderWithStack(
+  beforeEach: jest.Mock,
+  entries = ['/threads', '/threads/1?tab=comments']
+) {
+  const guard = beforeEach.getMockImplementation()
+  beforeEach.mockImplementation(() => true)
+
+  const rendered = renderNavigator({ screens, beforeEach })
+
+  entries.forEach((entry) => {
+    act(() => {
+      rendered.navigator().push(entry)
+    })
+  })
+  beforeEach.mockReset()
+  if (guard) {
+    beforeEach.mockImplementation(guard)
+  }
+
+  return rendered
+}
+
+describe('beforeEach', () => {
+  test('pushes synchronously while the guard returns synchronously', () => {
+    const beforeEach = jest.fn(() => true)
+    const { navigator, history, getStack } = renderNavigator({
+      screens,
+      beforeEach,
+    })
+
+    act(() => {
+      navigator().push('/threads')
+    })
+
+    expect(history.location.pathname).toBe('/threads')
+    expect(getStack()).toEqual(['/', '/threads'])
+    expect(beforeEach).toHaveBeenCalledWith('/threads', '/')
+  })
+
+  test('receives paths without navigator params for pop() and browser back', async () => {
+    const beforeEach = jest.fn()
+    const { navigator, history } = renderWithStack(beforeEach)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(beforeEach).toHaveBeenLastCalledWith(
+      '/threads',
+      '/threads/1?tab=comments'
+    )
+
+    act(() => {
+      navigator().push('/threads/1?tab=comments')
+    })
+    beforeEach.mockClear()
+
+    act(() => {
+      history.goBack()
+    })
+    await flush()
+
+    expect(beforeEach).toHaveBeenCalledTimes(1)
+    expect(beforeEach).toHaveBeenLastCalledWith(
+      '/threads',
+      '/threads/1?tab=comments'
+    )
+  })
+})
+
+describe('browser back', () => {
+  test('restores the history entries when the guard cancels', async () => {
+    const beforeEach = jest.fn(() => false)
+    const { history, getStack, getState } = renderWithStack(beforeEach)
+
+    act(() => {
+      history.go(-2)
+    })
+    await flush()
+
+    expect(history.location.pathname).toBe('/threads/1')
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1'])
+    expect(getState().transacting).toBe(false)
+
+    beforeEach.mockImplementation(() => true)
+    act(() => {
+      history.goBack()
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/', '/threads'])
+  })
+
+  test('goes back again once the pending guard allows it', async () => {
+    let allow: (allowed: boolean) => void = () => {}
+    const beforeEach = jest.fn(
+      () => new Promise<boolean>((resolve) => (allow = resolve))
+    )
+    const { history, getStack, getState } = renderWithStack(beforeEach)
+
+    act(() => {
+      history.go(-2)
+    })
+    expect(history.location.pathname).toBe('/threads/1')
+
+    allow(true)
+    await flush()
+
+    expect(history.location.pathname).toBe('/')
+    expect(getStack()).toEqual(['/'])
+    expect(getState().skipNavigationGuard).toBe(false)
+  })
+
+  test('stops transacting when history does not move back', async () => {
+    jest.useFakeTimers()
+
+    const beforeEach = jest.fn(() => false)
+    const { history, getState } = renderWithStack(beforeEach)
+    const go = history.go
+
+    jest.spyOn(history, 'go').mockImplementation(() => {})
+
+    act(() => {
+      go(-2)
+    })
+    expect(getState().transacting).toBe(true)
+
+    jest.runAllTimers()
+    await act(() => Promise.resolve())
+
+    expect(getState().transacting).toBe(false)
+
+    jest.useRealTimers()
+  })
+})
@@ -0,0 +1,127 @@
+import { useCallback } from 'react'
+
+import {
+  useHistory,
+  useNavigationGuards,
+  useNavigatorParamsConfig,
+} from '../contexts'
+import { omitNavigatorParamsFromPath } from '../helpers'
+import { useStore } from '../store'
+
+export type INavigationGuardResult = boolean | string
+
+/**
+ * Run `fn` synchronously when `value` is not a promise
+ */
+export function whenResolved<T>(value: T | Promise<T>, fn: (value: T) => void) {
+  if (value instanceof Promise) {
+    value.then(fn)
+  } else {
+    fn(value)
+  }
+}
+
+/**
+ * A guard that throws (or rejects) cancels the navigation
+ */
+function cancelOnError(error: unknown): false {
+  console.error(error)
+  return false
+}
+
+/**
+ * Run `guard`, turning its errors into a cancel
+ */
+function runSafely<T>(
+  guard: () => T | Promise<T>
+): T | false | Promise<T | false> {
+  try {
+    const result = guard()
+    return result instanceof Promise ? result.catch(cancelOnError) : result
+  } catch (error) {
+    return cancelOnError(error)
+  }
+}
+
+/**
+ * Run `useBeforeLeave()` handlers of leaving screens and `beforeEach`.
+ * Resolved synchronously while no guard returns a promise,
+ * and never rejected (a guard that throws cancels the navigation)
+ */
+export function useNavigationGuard() {
+  const store = useStore()
+  const history = useHistory()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
+  const { beforeEach } = useNavigationGuards()
+
+  return useCallback(
+    ({
+      from = history.location.pathname + history.location.search,
+      to,
+      leavingScreenInstanceIds,
+    }: {
+      /**
+       * Current location by default
+       */
+      from?: string
+      to: string
+      leavingScreenInstanceIds: string[]
+    }): INavigationGuardResult | Promise<INavigationGuardResult> => {
+      const { beforeLeaveHandlers } = store.getState()
+
+      const handlers = leavingScreenInstanceIds.reduce(
+        (acc, screenInstanceId) => [
+          ...acc,
+          ...(beforeLeaveHandlers[screenInstanceId] ?? []),
+        ],
+        [] as NonNullable<typeof beforeLeaveHandlers[string]>
+      )
+
+      const runBeforeEach = ():
+        | INavigationGuardResult
+        | Promise<INavigationGuardResult> => {
+        if (!beforeEach) {
+          return true
+        }
+
+        const result = runSafely(() =>
+          beforeEach(
+            omitNavigatorParamsFromPath(to, navigatorParamsConfig),
+            omitNavigatorParamsFromPath(from, navigatorParamsConfig)
+          )
+        )
+
+        return result instanceof Promise
+          ? result.then((result) => (result === undefined ? true : result))
+          : result === undefined
+          ? true
+          : result
+      }
+
+      /**
+       * Handlers run in order, and asynchronously
+       * only from the first one returning a promise
+       */
+      const runHandlers = (idx: number): boolean | Promise<boolean> => {
+        if (idx >= handlers.length) {
+          return true
+        }
+
+        const next = (result: boolean | void) =>
+          result === false ? false : runHandlers(idx + 1)
+        const result = runSafely(handlers[idx])
+
+        return result instanceof Promise ? result.then(next) : next(result)
+      }
+
+      const allowed = runHandlers(0)
+
+      return allowed instanceof Promise
+        ? allowed.then((allowed) => (allowed ? runBeforeEach() : false))
+        : allowed
+        ? runBeforeEach()
+        : false
+    },
+    [store, history, beforeEach, navigatorParamsConfig]
+  )
+}
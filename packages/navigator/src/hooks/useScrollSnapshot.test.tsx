@@ -0,0 +1,134 @@
+import { act, fireEvent, render } from '@testing-library/react'
+import { createMemoryHistory } from 'history'
+import React from 'react'
+
+import { flush } from '../_test/renderNavigator'
+import Navigator from '../Navigator'
+import Screen from '../Screen'
+import { GlobalState, useStore } from '../store'
+import { INavigator, useNavigator } from '../useNavigator'
+
+/**
+ * Only the top screen and the one behind it keep their contents mounted
+ */
+function renderScreens({
+  scrollRestoration,
+}: { scrollRestoration?: boolean } = {}) {
+  const probe: { navigator?: INavigator; getState?: () => GlobalState } = {}
+
+  const Probe: React.FC = () => {
+    probe.navigator = useNavigator()
+    probe.getState = useStore().getState
+    return null
+  }
+
+  const { container } = render(
+    <Navigator
+      historyAdapter={{
+        createHistory: () => createMemoryHistory(),
+        provideRouter: true,
+      }}
+      maxMountedScreens={1}
+    >
+      <Probe />
+      <Screen
+        path="/"
+        component={() => null}
+        scrollRestoration={scrollRestoration}
+      />
+      <Screen path="/threads/:threadId" component={() => null} />
+    </Navigator>
+  )
+
+  const rootFrame = container.querySelector<HTMLElement>(
+    '[class^="Card_frame_"]'
+  )!
+
+  const pop = async () => {
+    act(() => {
+      probe.navigator!.pop()
+    })
+    await flush()
+  }
+
+  return {
+    rootFrame,
+    navigator: () => probe.navigator!,
+    pop,
+    getRootScrollPositions: () => {
+      const { screenInstances, screenInstanceSnapshots } = probe.getState!()
+      return screenInstanceSnapshots[screenInstances[0].id]?.scrollPositions
+    },
+  }
+}
+
+describe('useScrollSnapshot()', () => {
+  const scrollTops = new WeakMap<HTMLElement, number>()
+
+  beforeEach(() => {
+    Object.defineProperty(HTMLElement.prototype, 'scrollTop', {
+      configurable: true,
+      get() {
+        return scrollTops.get(this) ?? 0
+      },
+      set(value: number) {
+        scrollTops.set(this, value)
+      },
+    })
+  })
+
+  afterEach(() => {
+    delete (HTMLElement.prototype as { scrollTop?: number }).scrollTop
+  })
+
+  test('saves the scroll offset when the screen leaves the top and restores it on return', async () => {
+    const { rootFrame, navigator, pop, getRootScrollPositions } =
+      renderScreens()
+
+    rootFrame.scrollTop = 300
+    fireEvent.scroll(rootFrame)
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    expect(Object.values(getRootScrollPositions() ?? {})).toEqual([300])
+
+    act(() => {
+      navigator().push('/threads/2')
+    })
+
+    /**
+     * Browsers reset the offset while the contents are unmounted
+     */
+    rootFrame.scrollTop = 0
+
+    await pop()
+    await pop()
+
+    expect(rootFrame.scrollTop).toBe(300)
+  })
+
+  test('is opted out with `scrollRestoration={false}`', async () => {
+    const { rootFrame, navigator, pop, getRootScrollPositions } = renderScreens(
+      { scrollRestoration: false }
+    )
+
+    rootFrame.scrollTop = 300
+    fireEvent.scroll(rootFrame)
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    act(() => {
+      navigator().push('/threads/2')
+    })
+    expect(getRootScrollPositions()).toBeUndefined()
+
+    rootFrame.scrollTop = 0
+
+    await pop()
+    await pop()
+
+    expect(rootFrame.scrollTop).toBe(0)
+  })
+})
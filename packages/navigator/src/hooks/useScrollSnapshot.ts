@@ -0,0 +1,90 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react'
+
+import { useStore, useStoreActions } from '../store'
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect'
+
+/**
+ * Save the scroll offset of `ref` to the screen instance snapshot
+ * when the screen leaves the top, the page is hidden or the element is unmounted,
+ * and restore it when the element is mounted
+ */
+export function useScrollSnapshot({
+  ref,
+  screenInstanceId,
+  key,
+  isTop,
+  isMounted = true,
+  disabled = false,
+}: {
+  ref: RefObject<HTMLElement>
+  screenInstanceId: string
+  key: string
+  isTop: boolean
+  isMounted?: boolean
+  disabled?: boolean
+}) {
+  const store = useStore()
+  const { mapScreenInstanceSnapshot } = useStoreActions()
+
+  const scrollTopRef = useRef(0)
+
+  const save = useCallback(() => {
+    mapScreenInstanceSnapshot({
+      screenInstanceId,
+      mapper: (snapshot) => ({
+        ...snapshot,
+        scrollPositions: {
+          ...snapshot.scrollPositions,
+          [key]: scrollTopRef.current,
+        },
+      }),
+    })
+  }, [screenInstanceId, key, mapScreenInstanceSnapshot])
+
+  useEffect(() => {
+    const $el = ref.current
+
+    if (disabled || !isMounted || !$el) {
+      return
+    }
+
+    const onScroll = () => {
+      scrollTopRef.current = $el.scrollTop
+    }
+
+    $el.addEventListener('scroll', onScroll, { passive: true })
+    window.addEventListener('pagehide', save)
+
+    return () => {
+      $el.removeEventListener('scroll', onScroll)
+      window.removeEventListener('pagehide', save)
+    }
+  }, [ref, isMounted, disabled, save])
+
+  useIsomorphicLayoutEffect(() => {
+    const $el = ref.current
+
+    if (disabled || !isMounted || !$el) {
+      return
+    }
+
+    const scrollTop =
+      store.getState().screenInstanceSnapshots[screenInstanceId]
+        ?.scrollPositions[key]
+
+    if (scrollTop !== undefined) {
+      $el.scrollTop = scrollTop
+      scrollTopRef.current = scrollTop
+    }
+
+    return () => {
+      save()
+    }
+  }, [ref, isMounted, disabled])
+
+  useEffect(() => {
+    if (!disabled && !isTop) {
+      save()
+    }
+  }, [isTop, disabled])
+}
@@ -0,0 +1,57 @@
+import { render } from '@testing-library/react'
+import React from 'react'
+
+import { IScreenInstanceIdGenerator } from '../types'
+import { UniqueIdProvider, useUniqueId } from './useUniqueId'
+
+function renderUniqueId(generator?: IScreenInstanceIdGenerator) {
+  const result: { current: ReturnType<typeof useUniqueId> | null } = {
+    current: null,
+  }
+
+  const Consumer: React.FC = () => {
+    result.current = useUniqueId()
+    return null
+  }
+
+  render(
+    <UniqueIdProvider generator={generator}>
+      <Consumer />
+    </UniqueIdProvider>
+  )
+
+  return result.current!
+}
+
+describe('useUniqueId', () => {
+  test('issues different ids when called twice in one tick', () => {
+    const { uid } = renderUniqueId()
+
+    expect(uid()).not.toBe(uid())
+  })
+
+  test('retries when the generator returns an id in use', () => {
+    const ids = ['a', 'a', 'b']
+    const { uid } = renderUniqueId(() => ids.shift()!)
+
+    expect(uid()).toBe('a')
+    expect(uid()).toBe('b')
+  })
+
+  test('does not issue excluded ids', () => {
+    const ids = ['restored', 'fresh']
+    const { uid, exclude } = renderUniqueId(() => ids.shift()!)
+
+    exclude(['restored'])
+
+    expect(uid()).toBe('fresh')
+  })
+
+  test('throws when the generator keeps returning ids in use', () => {
+    const { uid } = renderUniqueId(() => 'same')
+
+    uid()
+
+    expect(() => uid()).toThrow()
+  })
+})
@@ -3,44 +3,73 @@ import React, {
   useCallback,
   useContext,
   useMemo,
-  useReducer,
+  useState,
 } from 'react'
 
+import { createScreenInstanceId } from '../helpers'
+import { IScreenInstanceIdGenerator } from '../types'
+
+/**
+ * Give up when the generator keeps returning ids in use
+ */
+const MAX_ATTEMPTS = 100
+
 const UniqueIdContext = createContext<{
-  counter: number
-  increase: () => void
+  generator: IScreenInstanceIdGenerator
+  issued: Set<string>
 }>(null as any)
 
-export const UniqueIdProvider: React.FC = (props) => {
-  const [counter, increase] = useReducer((i) => i + 1, 0)
+export const UniqueIdProvider: React.FC<{
+  generator?: IScreenInstanceIdGenerator
+}> = (props) => {
+  const [issued] = useState(() => new Set<string>())
+
+  const value = useMemo(
+    () => ({
+      generator: props.generator ?? createScreenInstanceId,
+      issued,
+    }),
+    [props.generator, issued]
+  )
 
   return (
-    <UniqueIdContext.Provider
-      value={useMemo(
-        () => ({
-          counter,
-          increase,
-        }),
-        [counter, increase]
-      )}
-    >
+    <UniqueIdContext.Provider value={value}>
       {props.children}
     </UniqueIdContext.Provider>
   )
 }
 
 export function useUniqueId() {
-  const { counter, increase } = useContext(UniqueIdContext)
+  const { generator, issued } = useContext(UniqueIdContext)
 
   const uid = useCallback(() => {
-    increase()
-    return String(counter)
-  }, [counter, increase])
+    for (let i = 0; i < MAX_ATTEMPTS; i += 1) {
+      const id = generator()
+
+      if (!issued.has(id)) {
+        issued.add(id)
+        return id
+      }
+    }
+
+    throw new Error('Screen instance id generator keeps returning ids in use')
+  }, [generator, issued])
+
+  /**
+   * Prevent ids already in use (e.g. restored from storage) from being issued
+   */
+  const exclude = useCallback(
+    (ids: string[]) => {
+      ids.forEach((id) => issued.add(id))
+    },
+    [issued]
+  )
 
   return useMemo(
     () => ({
       uid,
+      exclude,
     }),
-    [uid]
+    [uid, exclude]
   )
 }
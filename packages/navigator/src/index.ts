@@ -3,10 +3,74 @@ export { useLocation, useRouteMatch } from 'react-router-dom'
 export { default as Navigator } from './Navigator'
 export { default as Screen } from './Screen'
 export { default as ScreenHelmet } from './ScreenHelmet'
+export { default as SharedElement } from './SharedElement'
 
+export {
+  createRoutes,
+  IRoute,
+  IRouteParams,
+  IRouteQueryParams,
+  IRouteQueryParamsSchema,
+} from './createRoutes'
+export { useAppearEffect } from './useAppearEffect'
+export { useBeforeLeave } from './useBeforeLeave'
+export { useBlurEffect } from './useBlurEffect'
 export { useCurrentScreen } from './useCurrentScreen'
-export { useNavigator } from './useNavigator'
+export { useDisappearEffect } from './useDisappearEffect'
+export { useFocusEffect } from './useFocusEffect'
+export {
+  INavigator,
+  INavigatorPresentOptions,
+  INavigatorScopeOptions,
+  INavigatorStackEntry,
+  useNavigator,
+} from './useNavigator'
 export { useParams } from './useParams'
-export { useQueryParams } from './useQueryParams'
+export {
+  IQueryParamsOptions,
+  ISetQueryParams,
+  useQueryParams,
+} from './useQueryParams'
+export { useScreenState } from './useScreenState'
+export { useScrollRestoration } from './useScrollRestoration'
+export { useSwipeBack } from './useSwipeBack'
 
-export { INavigatorTheme } from './types'
+export {
+  builtInThemes,
+  createBrowserHistoryAdapter,
+  createCustomRouterHistoryAdapter,
+  createHashHistoryAdapter,
+  createMemoryHistoryAdapter,
+  createMockNavigatorBridge,
+  createScreenInstanceId,
+  detectThemeFromUserAgent,
+  getThemeFromUserAgent,
+  IMockNavigatorBridge,
+} from './helpers'
+
+export {
+  IBeforeLeaveHandler,
+  IGesture,
+  IHistoryAdapter,
+  IInitialStackResolver,
+  INavigatorAfterEach,
+  INavigatorBeforeEach,
+  INavigatorBridge,
+  INavigatorColorScheme,
+  INavigatorParamKeys,
+  INavigatorParamsOptions,
+  INavigatorTheme,
+  INavigatorThemeDefinition,
+  INavigatorThemeDetector,
+  INavigatorTokens,
+  IQueryParamDescriptor,
+  IQueryParamsOf,
+  IQueryParamsPatch,
+  IQueryParamsSchema,
+  IScreenInstanceIdGenerator,
+  IStackStorage,
+  ITransition,
+  ITransitionEvent,
+  ITransitionEventScreen,
+  ITransitionStyle,
+} from './types'
@@ -8,17 +8,25 @@ import React, {
 } from 'react'
 import compare from 'react-fast-compare'
 
+import { IBeforeLeaveHandler, IGesture, ITransition } from '../types'
 import { createStore, Store } from './createStore'
 
 export interface IScreen {
   id: string
   path: string
-  Component: React.FC<{
-    screenInstanceId: string
-    as: string
-    isTop: boolean
-    isRoot: boolean
-  }>
+  keepAlive: boolean
+  scrollRestoration: boolean
+  transition?: ITransition | string
+  gesture?: IGesture
+  component?: React.ComponentType
+  children?: React.ReactNode
+}
+
+export interface ISheetOptions {
+  /**
+   * Heights the sheet rests at, as fractions of the navigator height
+   */
+  detents: number[]
 }
 
 export interface IScreenInstance {
@@ -26,6 +34,8 @@ export interface IScreenInstance {
   screenId: string
   nestedRouteCount: number
   present: boolean
+  sheet?: ISheetOptions
+  transition?: string
   as: string
 }
 
@@ -46,6 +56,15 @@ export interface INavbarOptions {
   onTopClick?: () => void
 }
 
+export interface IScreenInstanceSnapshot {
+  scrollPositions: {
+    [key: string]: number
+  }
+  state: {
+    [key: string]: unknown
+  }
+}
+
 export interface IScreenInstancePromise {
   resolve: (data: any | null) => void
   popped: boolean
@@ -63,6 +82,17 @@ export interface GlobalState {
   screenInstancePromises: {
     [screenInstanceId: string]: IScreenInstancePromise | undefined
   }
+  beforeLeaveHandlers: {
+    [screenInstanceId: string]: IBeforeLeaveHandler[] | undefined
+  }
+  screenInstanceSnapshots: {
+    [screenInstanceId: string]: IScreenInstanceSnapshot | undefined
+  }
+  swipeBackEnabled: {
+    [screenInstanceId: string]: boolean | undefined
+  }
+  transacting: boolean
+  skipNavigationGuard: boolean
 }
 
 const StoreContext = createContext<Store<GlobalState>>(null as any)
@@ -76,6 +106,11 @@ export const StoreProvider: React.FC = (props) => {
         screenInstancePtr: -1,
         screenInstanceOptions: {},
         screenInstancePromises: {},
+        beforeLeaveHandlers: {},
+        screenInstanceSnapshots: {},
+        swipeBackEnabled: {},
+        transacting: false,
+        skipNavigationGuard: false,
       })),
     []
   )
@@ -183,6 +218,78 @@ export function useStoreActions() {
     [store]
   )
 
+  const addBeforeLeaveHandler = useCallback(
+    ({
+      screenInstanceId,
+      handler,
+    }: {
+      screenInstanceId: string
+      handler: IBeforeLeaveHandler
+    }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        beforeLeaveHandlers: {
+          ...prevState.beforeLeaveHandlers,
+          [screenInstanceId]: [
+            ...(prevState.beforeLeaveHandlers[screenInstanceId] ?? []),
+            handler,
+          ],
+        },
+      }))
+
+      return function remove() {
+        store.setState((prevState) => ({
+          ...prevState,
+          beforeLeaveHandlers: {
+            ...prevState.beforeLeaveHandlers,
+            [screenInstanceId]: prevState.beforeLeaveHandlers[
+              screenInstanceId
+            ]?.filter((h) => h !== handler),
+          },
+        }))
+      }
+    },
+    [store]
+  )
+
+  const mapScreenInstanceSnapshot = useCallback(
+    ({
+      screenInstanceId,
+      mapper,
+    }: {
+      screenInstanceId: string
+      mapper: (snapshot: IScreenInstanceSnapshot) => IScreenInstanceSnapshot
+    }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        screenInstanceSnapshots: {
+          ...prevState.screenInstanceSnapshots,
+          [screenInstanceId]: mapper(
+            prevState.screenInstanceSnapshots[screenInstanceId] ?? {
+              scrollPositions: {},
+              state: {},
+            }
+          ),
+        },
+      }))
+    },
+    [store]
+  )
+
+  const setScreenInstanceSnapshots = useCallback(
+    ({
+      screenInstanceSnapshots,
+    }: {
+      screenInstanceSnapshots: GlobalState['screenInstanceSnapshots']
+    }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        screenInstanceSnapshots,
+      }))
+    },
+    [store]
+  )
+
   const mapScreenInstance = useCallback(
     ({
       ptr,
@@ -211,6 +318,8 @@ export function useStoreActions() {
         id: string
         screenId: string
         present: boolean
+        sheet?: ISheetOptions
+        transition?: string
         as: string
       }
     }) => {
@@ -228,6 +337,23 @@ export function useStoreActions() {
     [store]
   )
 
+  const setScreenInstances = useCallback(
+    ({
+      screenInstances,
+      ptr,
+    }: {
+      screenInstances: IScreenInstance[]
+      ptr: number
+    }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        screenInstances,
+        screenInstancePtr: ptr,
+      }))
+    },
+    [store]
+  )
+
   const increaseScreenInstancePtr = useCallback(() => {
     store.setState((prevState) => ({
       ...prevState,
@@ -245,24 +371,77 @@ export function useStoreActions() {
     [store]
   )
 
+  const setSwipeBackEnabled = useCallback(
+    ({
+      screenInstanceId,
+      enabled,
+    }: {
+      screenInstanceId: string
+      enabled: boolean | undefined
+    }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        swipeBackEnabled: {
+          ...prevState.swipeBackEnabled,
+          [screenInstanceId]: enabled,
+        },
+      }))
+    },
+    [store]
+  )
+
+  const setTransacting = useCallback(
+    ({ transacting }: { transacting: boolean }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        transacting,
+      }))
+    },
+    [store]
+  )
+
+  const setSkipNavigationGuard = useCallback(
+    ({ skipNavigationGuard }: { skipNavigationGuard: boolean }) => {
+      store.setState((prevState) => ({
+        ...prevState,
+        skipNavigationGuard,
+      }))
+    },
+    [store]
+  )
+
   return useMemo(
     () => ({
       registerScreen,
       addScreenInstanceOption,
       addScreenInstancePromise,
+      addBeforeLeaveHandler,
+      mapScreenInstanceSnapshot,
+      setScreenInstanceSnapshots,
       mapScreenInstance,
       insertScreenInstance,
+      setScreenInstances,
       increaseScreenInstancePtr,
       setScreenInstancePtr,
+      setSwipeBackEnabled,
+      setTransacting,
+      setSkipNavigationGuard,
     }),
     [
       registerScreen,
       addScreenInstanceOption,
       addScreenInstancePromise,
+      addBeforeLeaveHandler,
+      mapScreenInstanceSnapshot,
+      setScreenInstanceSnapshots,
       mapScreenInstance,
       insertScreenInstance,
+      setScreenInstances,
       increaseScreenInstancePtr,
       setScreenInstancePtr,
+      setSwipeBackEnabled,
+      setTransacting,
+      setSkipNavigationGuard,
     ]
   )
 }
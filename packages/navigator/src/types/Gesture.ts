@@ -0,0 +1,31 @@
+/**
+ * Edge swipe back gesture options
+ */
+export interface IGesture {
+  /**
+   * Enable edge swipe back (default: `swipeBack` of theme)
+   */
+  enabled?: boolean
+
+  /**
+   * Width of the left edge where swipe back starts (default: `1.25rem`)
+   */
+  edgeWidth?: string
+
+  /**
+   * Velocity (px/ms) of release that pops regardless of distance
+   * (default: `1`)
+   */
+  velocityThreshold?: number
+
+  /**
+   * Ratio of swiped distance to screen width that pops (default: `0.4`)
+   */
+  distanceRatio?: number
+
+  /**
+   * Offset (px) of the screen underneath while swiping on Cupertino
+   * (default: `80`)
+   */
+  underneathOffset?: number
+}
@@ -0,0 +1,15 @@
+import { History } from 'history'
+
+export interface IHistoryAdapter {
+  /**
+   * Create `history` instance that navigator runs on
+   * (`routerHistory` is the `history` of the enclosing `<Router />` if exists)
+   */
+  createHistory: (routerHistory?: History) => History
+
+  /**
+   * Wrap the stack with `<Router />` so that `react-router-dom` APIs
+   * can be used inside screens
+   */
+  provideRouter: boolean
+}
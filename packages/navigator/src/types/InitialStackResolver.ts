@@ -0,0 +1,8 @@
+/**
+ * Returns URLs of the ancestor screens of the entry location
+ * (e.g. `/article/42` → `['/', '/articles']`)
+ */
+export type IInitialStackResolver = (location: {
+  pathname: string
+  search: string
+}) => string[]
@@ -0,0 +1,15 @@
+/**
+ * Return `false` to cancel leaving the screen
+ */
+export type IBeforeLeaveHandler = () => boolean | void | Promise<boolean | void>
+
+/**
+ * Return `false` to cancel the navigation,
+ * or a path to redirect to it instead
+ */
+export type INavigatorBeforeEach = (
+  to: string,
+  from: string
+) => boolean | string | void | Promise<boolean | string | void>
+
+export type INavigatorAfterEach = (to: string, from: string) => void
@@ -0,0 +1,26 @@
+/**
+ * Connects navigator to the native host app (e.g. of webview)
+ */
+export interface INavigatorBridge {
+  /**
+   * Listen to the back key (or back action) of the host app
+   * (returns a function that removes the listener)
+   */
+  onBackPressed: (listener: () => void) => () => void
+
+  /**
+   * Ask the host app to close navigator (e.g. dismiss webview)
+   */
+  requestClose: () => void
+
+  /**
+   * Enable or disable the swipe back gesture of the host app
+   * (enabled only while the root screen is on top)
+   */
+  setSwipeBackEnabled: (enabled: boolean) => void
+
+  /**
+   * When navigation depth changed
+   */
+  onDepthChange?: (depth: number) => void
+}
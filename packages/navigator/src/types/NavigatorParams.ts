@@ -0,0 +1,29 @@
+/**
+ * Keys of navigator params
+ */
+export interface INavigatorParamKeys {
+  screenInstanceId: string
+  present: string
+  detents: string
+  transition: string
+
+  /**
+   * Prefix of the params keeping the locations of nested navigators
+   * (e.g. `_nested.tab`)
+   */
+  nested: string
+}
+
+export interface INavigatorParamsOptions {
+  /**
+   * Keys of navigator params
+   * (default: `_si`, `_present`, `_detents`, `_transition` and `_nested`)
+   */
+  keys?: Partial<INavigatorParamKeys>
+
+  /**
+   * Where navigator params are kept: querystring of URL (default)
+   * or `history.state` (throws with hash history, which drops it)
+   */
+  storage?: 'search' | 'state'
+}
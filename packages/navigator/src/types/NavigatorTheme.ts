@@ -1 +1,51 @@
-export type INavigatorTheme = 'Cupertino' | 'Android'
+import { ITransition } from './Transition'
+
+export type INavigatorTheme = 'Cupertino' | 'Android' | 'Web'
+
+/**
+ * Decide the theme when `theme="auto"`
+ */
+export type INavigatorThemeDetector = () => INavigatorTheme
+
+export interface INavigatorThemeDefinition {
+  /**
+   * Layout of screens (how they are stacked, animated and swiped back)
+   */
+  layout: 'Cupertino' | 'Android'
+
+  /**
+   * Alignment of navbar titles
+   */
+  titleAlign: 'left' | 'center'
+
+  /**
+   * Dim over the screen underneath: a gradient at the top or the whole screen
+   * (presented screens always dim the whole screen)
+   */
+  dim: 'gradient' | 'full'
+
+  /**
+   * Transition of screens (default: transition of `layout`)
+   */
+  transition?: ITransition
+
+  /**
+   * Default transition animation duration
+   */
+  animationDuration: number
+
+  /**
+   * Navbar metrics overriding the ones of `layout`
+   */
+  navbar?: {
+    height?: string
+    borderSize?: string
+    padding?: string
+  }
+
+  /**
+   * Enable edge swipe back gesture by default
+   * (overridden by `gesture` of `Navigator` and `Screen`)
+   */
+  swipeBack: boolean
+}
@@ -0,0 +1,27 @@
+/**
+ * Design tokens overriding the CSS variables of navigator
+ */
+export interface INavigatorTokens {
+  backgroundColor?: string
+  dimBackgroundColor?: string
+  dimOpacity?: string
+  navbar?: {
+    iconColor?: string
+    iconSize?: string
+    borderColor?: string
+    borderSize?: string
+    height?: string
+    padding?: string
+    center?: {
+      textColor?: string
+      fontFamily?: string
+      fontSize?: string
+      fontWeight?: string
+    }
+  }
+}
+
+/**
+ * `light` or `dark`, or `auto` to follow `prefers-color-scheme`
+ */
+export type INavigatorColorScheme = 'light' | 'dark' | 'auto'
@@ -0,0 +1,43 @@
+/**
+ * How a querystring key is coerced
+ * (missing or invalid values fall back to `default`)
+ */
+export type IQueryParamDescriptor =
+  | { type: 'string'; default?: string }
+  | { type: 'number'; default?: number }
+  | { type: 'boolean'; default?: boolean }
+  | { type: 'array'; default?: string[] }
+  | { type: 'enum'; values: readonly string[]; default?: string }
+
+export interface IQueryParamsSchema {
+  [key: string]: IQueryParamDescriptor
+}
+
+type IQueryParamValue<D extends IQueryParamDescriptor> = D extends {
+  type: 'number'
+}
+  ? number
+  : D extends { type: 'boolean' }
+  ? boolean
+  : D extends { type: 'array' }
+  ? string[]
+  : D extends { type: 'enum'; values: readonly (infer V)[] }
+  ? V
+  : string
+
+/**
+ * Query params coerced by schema
+ * (keys with `default` are always present)
+ */
+export type IQueryParamsOf<S extends IQueryParamsSchema> = {
+  [K in keyof S]: S[K] extends { default: {} }
+    ? IQueryParamValue<S[K]>
+    : IQueryParamValue<S[K]> | undefined
+}
+
+/**
+ * Values to write (`undefined` or `null` removes the key)
+ */
+export type IQueryParamsPatch<S extends IQueryParamsSchema> = {
+  [K in keyof S]?: IQueryParamValue<S[K]> | null
+}
@@ -0,0 +1,5 @@
+/**
+ * Issue a screen instance id (`_si` of URL)
+ * (should be unique across sessions and tabs)
+ */
+export type IScreenInstanceIdGenerator = () => string
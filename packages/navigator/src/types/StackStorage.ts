@@ -0,0 +1,4 @@
+export interface IStackStorage {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+}
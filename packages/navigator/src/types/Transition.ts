@@ -0,0 +1,38 @@
+/**
+ * Style of a screen at one end of a transition
+ * (translations are percentages of the screen size)
+ */
+export interface ITransitionStyle {
+  opacity?: number
+  translateX?: number
+  translateY?: number
+  scale?: number
+}
+
+export interface ITransition {
+  /**
+   * Screen being pushed goes `from` → `to`, and back when popped
+   */
+  current: {
+    from: ITransitionStyle
+    to: ITransitionStyle
+  }
+
+  /**
+   * Screen underneath goes `from` → `to` while covered, and back when uncovered
+   */
+  underneath?: {
+    from: ITransitionStyle
+    to: ITransitionStyle
+  }
+
+  /**
+   * Duration in milliseconds (default: `animationDuration` of `Navigator`)
+   */
+  duration?: number
+
+  /**
+   * CSS timing function
+   */
+  easing?: string
+}
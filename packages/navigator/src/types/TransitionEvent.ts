@@ -0,0 +1,11 @@
+export interface ITransitionEventScreen {
+  screenInstanceId: string
+  screenId: string
+  path: string
+}
+
+export interface ITransitionEvent {
+  from: ITransitionEventScreen | null
+  to: ITransitionEventScreen | null
+  direction: 'forward' | 'backward'
+}
@@ -1 +1,13 @@
+export * from './Gesture'
+export * from './HistoryAdapter'
+export * from './InitialStackResolver'
+export * from './NavigationGuard'
+export * from './NavigatorBridge'
+export * from './NavigatorParams'
 export * from './NavigatorTheme'
+export * from './NavigatorTokens'
+export * from './QueryParamsSchema'
+export * from './ScreenInstanceIdGenerator'
+export * from './StackStorage'
+export * from './Transition'
+export * from './TransitionEvent'
@@ -0,0 +1,83 @@
+import { act } from '@testing-library/react'
+import React from 'react'
+
+import { flush, renderNavigator } from './_test/renderNavigator'
+import { useAppearEffect } from './useAppearEffect'
+import { useDisappearEffect } from './useDisappearEffect'
+
+function wait(ms: number) {
+  return act(() => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+}
+
+function renderWithEffects(animationDuration = 0) {
+  const appear = jest.fn()
+  const disappearCleanup = jest.fn()
+  const disappear = jest.fn(() => disappearCleanup)
+
+  const Thread: React.FC = () => {
+    useAppearEffect(appear)
+    useDisappearEffect(disappear)
+    return null
+  }
+
+  const rendered = renderNavigator({
+    screens: { '/': () => null, '/threads/:threadId': Thread },
+    animationDuration,
+  })
+
+  return { ...rendered, appear, disappear, disappearCleanup }
+}
+
+describe('useAppearEffect()', () => {
+  test('runs when the enter transition is finished', async () => {
+    const { navigator, appear } = renderWithEffects()
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    expect(appear).not.toHaveBeenCalled()
+
+    await flush()
+
+    expect(appear).toHaveBeenCalledTimes(1)
+  })
+
+  test('runs immediately when mounted without transition', () => {
+    const appear = jest.fn()
+    const Thread: React.FC = () => {
+      useAppearEffect(appear)
+      return null
+    }
+
+    renderNavigator({
+      screens: { '/threads/:threadId': Thread },
+      initialEntries: ['/threads/1'],
+    })
+
+    expect(appear).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('useDisappearEffect()', () => {
+  test('runs when the exit transition starts and cleans up when finished', async () => {
+    const { navigator, disappear, disappearCleanup } = renderWithEffects(50)
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    await wait(100)
+    expect(disappear).not.toHaveBeenCalled()
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(disappear).toHaveBeenCalledTimes(1)
+    expect(disappearCleanup).not.toHaveBeenCalled()
+
+    await wait(100)
+
+    expect(disappearCleanup).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react'
+
+import { useScreenInstance, useTransitionEmitter } from './contexts'
+
+/**
+ * Run `callback` when the enter transition of the screen is finished
+ * (immediately if the screen is mounted without transition)
+ */
+export function useAppearEffect(callback: () => void) {
+  const { screenInstanceId } = useScreenInstance()
+  const transitionEmitter = useTransitionEmitter()
+
+  const callbackRef = useRef(callback)
+  callbackRef.current = callback
+
+  useEffect(() => {
+    if (transitionEmitter.getStatus(screenInstanceId) !== 'entering') {
+      callbackRef.current()
+    }
+
+    return transitionEmitter.listen(screenInstanceId, (status) => {
+      if (status === 'entered') {
+        callbackRef.current()
+      }
+    })
+  }, [screenInstanceId, transitionEmitter])
+}
@@ -0,0 +1,127 @@
+import { act } from '@testing-library/react'
+import React from 'react'
+
+import { flush, renderNavigator } from './_test/renderNavigator'
+import { useBeforeLeave } from './useBeforeLeave'
+
+function renderWithHandler(handler: jest.Mock) {
+  const Thread: React.FC = () => {
+    useBeforeLeave(handler)
+    return null
+  }
+
+  const rendered = renderNavigator({
+    screens: { '/': () => null, '/threads/:threadId': Thread },
+  })
+
+  act(() => {
+    rendered.navigator().push('/threads/1')
+  })
+
+  return rendered
+}
+
+describe('useBeforeLeave()', () => {
+  test('lets browser back through synchronously when it returns true', () => {
+    const handler = jest.fn(() => true)
+    const { history, getStack } = renderWithHandler(handler)
+    const go = jest.spyOn(history, 'go')
+
+    act(() => {
+      history.goBack()
+    })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(getStack()).toEqual(['/'])
+    expect(go).not.toHaveBeenCalled()
+  })
+
+  test('keeps the screen when it returns false', async () => {
+    const handler = jest.fn(() => false)
+    const { navigator, history, getStack } = renderWithHandler(handler)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(getStack()).toEqual(['/', '/threads/1'])
+    expect(history.location.pathname).toBe('/threads/1')
+  })
+
+  test('waits for a promise', async () => {
+    let allow: (allowed: boolean) => void = () => {}
+    const handler = jest.fn(
+      () => new Promise<boolean>((resolve) => (allow = resolve))
+    )
+    const { navigator, getStack } = renderWithHandler(handler)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+    expect(getStack()).toEqual(['/', '/threads/1'])
+
+    allow(true)
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+  })
+
+  test('cancels the navigation when it throws or rejects', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const handler = jest.fn<boolean | Promise<boolean>, []>(() => {
+      throw new Error('broken')
+    })
+    const { navigator, history, getStack } = renderWithHandler(handler)
+    const listen = history.listen
+    const disposes: jest.Mock[] = []
+    jest.spyOn(history, 'listen').mockImplementation((listener) => {
+      const dispose = jest.fn(listen(listener))
+      disposes.push(dispose)
+      return dispose
+    })
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/', '/threads/1'])
+    expect(error).toHaveBeenCalledWith(new Error('broken'))
+    expect(disposes[0]).toHaveBeenCalled()
+
+    handler.mockImplementation(() => Promise.reject(new Error('rejected')))
+    act(() => {
+      history.goBack()
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/', '/threads/1'])
+    expect(error).toHaveBeenCalledWith(new Error('rejected'))
+
+    error.mockRestore()
+  })
+})
+
+describe('beforeEach', () => {
+  test('resolves push() with null when it throws', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const { navigator, getStack } = renderNavigator({
+      screens: { '/': () => null, '/threads/:threadId': () => null },
+      beforeEach: () => Promise.reject(new Error('offline')),
+    })
+
+    let result: unknown
+    await act(async () => {
+      result = await navigator().push('/threads/1')
+    })
+
+    expect(result).toBeNull()
+    expect(getStack()).toEqual(['/'])
+    expect(error).toHaveBeenCalledWith(new Error('offline'))
+
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react'
+
+import { useScreenInstance } from './contexts'
+import { useStoreActions } from './store'
+import { IBeforeLeaveHandler } from './types'
+
+export function useBeforeLeave(handler: IBeforeLeaveHandler) {
+  const { screenInstanceId } = useScreenInstance()
+  const { addBeforeLeaveHandler } = useStoreActions()
+
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    return addBeforeLeaveHandler({
+      screenInstanceId,
+      handler: () => handlerRef.current(),
+    })
+  }, [screenInstanceId, addBeforeLeaveHandler])
+}
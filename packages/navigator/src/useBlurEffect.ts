@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react'
+
+import { useScreenInstance } from './contexts'
+
+/**
+ * Run `callback` when the screen stops being top
+ */
+export function useBlurEffect(callback: () => void) {
+  const { isTop } = useScreenInstance()
+
+  const callbackRef = useRef(callback)
+  callbackRef.current = callback
+
+  const prevIsTopRef = useRef(isTop)
+
+  useEffect(() => {
+    if (prevIsTopRef.current && !isTop) {
+      callbackRef.current()
+    }
+
+    prevIsTopRef.current = isTop
+  }, [isTop])
+}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react'
+
+import { useScreenInstance, useTransitionEmitter } from './contexts'
+
+/**
+ * Run `callback` when the exit transition of the screen starts,
+ * and its cleanup when the exit transition is finished
+ */
+export function useDisappearEffect(callback: () => void | (() => void)) {
+  const { screenInstanceId } = useScreenInstance()
+  const transitionEmitter = useTransitionEmitter()
+
+  const callbackRef = useRef(callback)
+  callbackRef.current = callback
+
+  useEffect(() => {
+    let cleanup: void | (() => void)
+
+    return transitionEmitter.listen(screenInstanceId, (status) => {
+      if (status === 'exiting') {
+        cleanup = callbackRef.current()
+      }
+      if (status === 'exited') {
+        cleanup?.()
+        cleanup = undefined
+      }
+    })
+  }, [screenInstanceId, transitionEmitter])
+}
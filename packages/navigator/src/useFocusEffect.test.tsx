@@ -0,0 +1,66 @@
+import { act } from '@testing-library/react'
+import React from 'react'
+
+import { flush, renderNavigator } from './_test/renderNavigator'
+import { useBlurEffect } from './useBlurEffect'
+import { useFocusEffect } from './useFocusEffect'
+
+function renderWithEffects() {
+  const cleanup = jest.fn()
+  const focus = jest.fn(() => cleanup)
+  const blur = jest.fn()
+
+  const Home: React.FC = () => {
+    useFocusEffect(focus)
+    useBlurEffect(blur)
+    return null
+  }
+
+  const rendered = renderNavigator({
+    screens: { '/': Home, '/threads/:threadId': () => null },
+    animationDuration: 0,
+  })
+
+  return { ...rendered, focus, cleanup, blur }
+}
+
+describe('useFocusEffect()', () => {
+  test('runs when the screen becomes top and cleans up when covered', async () => {
+    const { navigator, focus, cleanup } = renderWithEffects()
+
+    expect(focus).toHaveBeenCalledTimes(1)
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    expect(cleanup).toHaveBeenCalledTimes(1)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(focus).toHaveBeenCalledTimes(2)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('useBlurEffect()', () => {
+  test('runs only when the screen stops being top', async () => {
+    const { navigator, blur } = renderWithEffects()
+
+    expect(blur).not.toHaveBeenCalled()
+
+    act(() => {
+      navigator().push('/threads/1')
+    })
+    expect(blur).toHaveBeenCalledTimes(1)
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(blur).toHaveBeenCalledTimes(1)
+  })
+})
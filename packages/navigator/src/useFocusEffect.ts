@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react'
+
+import { useScreenInstance } from './contexts'
+
+/**
+ * Run `effect` when the screen becomes top,
+ * and its cleanup when the screen stops being top
+ */
+export function useFocusEffect(effect: () => void | (() => void)) {
+  const { isTop } = useScreenInstance()
+
+  const effectRef = useRef(effect)
+  effectRef.current = effect
+
+  useEffect(() => {
+    if (!isTop) {
+      return
+    }
+
+    return effectRef.current()
+  }, [isTop])
+}
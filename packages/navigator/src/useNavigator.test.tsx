@@ -0,0 +1,230 @@
+import { act } from '@testing-library/react'
+import { createMemoryHistory } from 'history'
+import React from 'react'
+
+import { flush, renderNavigator } from './_test/renderNavigator'
+import { INavigator, useNavigator } from './useNavigator'
+
+const screens = {
+  '/': () => null,
+  '/threads': () => null,
+  '/threads/:threadId': () => null,
+  '/receipt': () => null,
+}
+
+describe('pushMany()', () => {
+  test('pushes every entry onto the stack and history', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+
+    await act(() => navigator().pushMany(['/threads', '/threads/1']))
+
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1'])
+    expect(history.length).toBe(3)
+    expect(history.location.pathname).toBe('/threads/1')
+  })
+
+  test('goes back one screen at a time afterwards', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+
+    await act(() => navigator().pushMany(['/threads', '/threads/1']))
+    act(() => {
+      history.goBack()
+    })
+
+    expect(getStack()).toEqual(['/', '/threads'])
+  })
+
+  test('rejects without changing the stack for an unknown path', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+
+    await expect(
+      navigator().pushMany(['/threads', '/unknown'])
+    ).rejects.toThrow('No screen matching "/unknown"')
+
+    expect(getStack()).toEqual(['/'])
+    expect(history.length).toBe(1)
+    expect(navigator()).toBeTruthy()
+  })
+})
+
+describe('reset()', () => {
+  test('keeps screens in common and replaces the rest', async () => {
+    const { navigator, getStack, getState, history } = renderNavigator({
+      screens,
+    })
+
+    await act(() => navigator().pushMany(['/threads', '/threads/1']))
+    const [root] = getState().screenInstances
+
+    await act(() => navigator().reset(['/', '/receipt']))
+
+    expect(getStack()).toEqual(['/', '/receipt'])
+    expect(getState().screenInstances[0].id).toBe(root.id)
+    expect(history.location.pathname).toBe('/receipt')
+    expect(getState().transacting).toBe(false)
+  })
+
+  test('replaces the root screen when nothing is in common', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+
+    act(() => {
+      navigator().push('/threads')
+    })
+    await flush()
+    await act(() => navigator().reset(['/receipt']))
+
+    expect(getStack()).toEqual(['/receipt'])
+    expect(history.location.pathname).toBe('/receipt')
+  })
+
+  test('rejects an empty stack', async () => {
+    const { navigator, getStack } = renderNavigator({ screens })
+
+    await expect(navigator().reset([])).rejects.toThrow()
+    expect(getStack()).toEqual(['/'])
+  })
+
+  test('rejects and stops transacting when history does not go back', async () => {
+    jest.useFakeTimers()
+
+    const history = createMemoryHistory()
+    const { navigator, getStack, getState } = renderNavigator({
+      screens,
+      history,
+    })
+
+    await act(() => navigator().pushMany(['/threads']))
+    history.go = () => {}
+
+    const result = navigator().reset(['/receipt'])
+    expect(getState().transacting).toBe(true)
+
+    act(() => {
+      jest.runAllTimers()
+    })
+
+    await expect(result).rejects.toThrow('History did not go back')
+    expect(getState().transacting).toBe(false)
+    expect(getStack()).toEqual(['/', '/threads'])
+
+    jest.useRealTimers()
+  })
+})
+
+describe('popTo()', () => {
+  test('pops to the closest screen matching the path pattern', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+
+    await act(() =>
+      navigator().pushMany(['/threads', '/threads/1', '/threads/2', '/receipt'])
+    )
+    act(() => {
+      navigator().popTo('/threads/:threadId')
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1', '/threads/2'])
+    expect(history.location.pathname).toBe('/threads/2')
+  })
+
+  test('pops to the screen of the path or the screen instance id', async () => {
+    const { navigator, getStack, getState, history } = renderNavigator({
+      screens,
+    })
+
+    await act(() =>
+      navigator().pushMany(['/threads', '/threads/1', '/threads/2'])
+    )
+    act(() => {
+      navigator().popTo('/threads/1')
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1'])
+
+    act(() => {
+      navigator().popTo(getState().screenInstances[0].id)
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+    expect(history.location.pathname).toBe('/')
+  })
+
+  test('does nothing for the screen on top or no screen matching', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+
+    await act(() => navigator().pushMany(['/threads', '/threads/1']))
+    const go = jest.spyOn(history, 'go')
+
+    act(() => {
+      navigator().popTo('/threads/:threadId').send({})
+      navigator().popTo('/receipt').send({})
+    })
+    await flush()
+
+    expect(go).not.toHaveBeenCalled()
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1'])
+  })
+
+  test('is canceled by the guards', async () => {
+    const beforeEach = jest.fn(() => true)
+    const { navigator, getStack } = renderNavigator({ screens, beforeEach })
+
+    await act(() =>
+      navigator().pushMany(['/threads', '/threads/1', '/threads/2'])
+    )
+    beforeEach.mockReturnValue(false)
+    act(() => {
+      navigator().popTo('/threads')
+    })
+    await flush()
+
+    expect(beforeEach).toHaveBeenLastCalledWith('/threads', '/threads/2')
+    expect(getStack()).toEqual(['/', '/threads', '/threads/1', '/threads/2'])
+  })
+})
+
+describe('popToRoot()', () => {
+  test('pops every screen but the root and sends data to it', async () => {
+    let rootNavigator: INavigator | null = null
+    const Root: React.FC = () => {
+      rootNavigator = useNavigator()
+      return null
+    }
+    const { navigator, getStack, history } = renderNavigator({
+      screens: { ...screens, '/': Root },
+    })
+
+    let pushed: Promise<unknown> = Promise.resolve()
+    act(() => {
+      pushed = rootNavigator!.push('/threads')
+    })
+    await act(() => navigator().pushMany(['/threads/1', '/threads/2']))
+    act(() => {
+      navigator().popToRoot().send({ done: true })
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+    expect(history.location.pathname).toBe('/')
+    await expect(pushed).resolves.toEqual({ done: true })
+  })
+
+  test('does nothing on the root screen', async () => {
+    const { navigator, getStack, history } = renderNavigator({ screens })
+    const go = jest.spyOn(history, 'go')
+
+    act(() => {
+      navigator().popToRoot()
+    })
+    await flush()
+
+    expect(go).not.toHaveBeenCalled()
+    expect(getStack()).toEqual(['/'])
+  })
+})
+
+afterEach(async () => {
+  await flush()
+})
@@ -1,53 +1,164 @@
 import { useCallback, useMemo } from 'react'
-import { useHistory, useLocation } from 'react-router-dom'
+import { matchPath } from 'react-router-dom'
 
-import { useScreenInstance } from './contexts'
-import { getNavigatorParams, NavigatorParamKeys } from './helpers'
-import { useUniqueId } from './hooks'
-import { useStore, useStoreActions } from './store'
+import {
+  useHistory,
+  useLocation,
+  useLocationKeyStack,
+  useNavigatorParamsConfig,
+  useNavigatorScopes,
+  useScreenInstance,
+} from './contexts'
+import {
+  DEFAULT_SHEET_DETENTS,
+  getNavigatorParams,
+  goHistory,
+  makeNavigatorLocation,
+} from './helpers'
+import { useNavigationGuard, useUniqueId, whenResolved } from './hooks'
+import { IScreenInstance, useStore, useStoreActions } from './store'
 
-export function useNavigator() {
+export interface INavigatorPresentOptions {
+  /**
+   * Bottom to top animation (modal)
+   */
+  present?: boolean
+
+  /**
+   * How the screen is presented (`'present'` is same as `present: true`)
+   */
+  presentation?: 'push' | 'present' | 'sheet'
+
+  /**
+   * Heights the sheet rests at, as fractions of the navigator height
+   * (default: `[0.5, 0.9]`)
+   */
+  detents?: number[]
+}
+
+export type INavigatorStackEntry =
+  | string
+  | ({
+      to: string
+    } & INavigatorPresentOptions)
+
+/**
+ * Returned by `popTo()` and `popToRoot()` when there is nothing to pop
+ */
+const NOOP_POP: {
+  send: <T = object>(data: T) => void
+} = {
+  send() {},
+}
+
+function resolvePresentOptions(options?: INavigatorPresentOptions) {
+  const presentation =
+    options?.presentation ?? (options?.present ? 'present' : 'push')
+
+  return {
+    present: presentation === 'present',
+    sheet:
+      presentation === 'sheet'
+        ? {
+            detents: [...(options?.detents ?? DEFAULT_SHEET_DETENTS)].sort(
+              (a, b) => a - b
+            ),
+          }
+        : null,
+  }
+}
+
+function parseStackEntry(entry: INavigatorStackEntry) {
+  const { to, ...options } = typeof entry === 'string' ? { to: entry } : entry
+  const { pathname, searchParams } = new URL(to, /* dummy */ 'file://')
+
+  return {
+    pathname,
+    searchParams,
+    ...resolvePresentOptions(options),
+  }
+}
+
+function useNavigatorOfCurrentScope() {
   const history = useHistory()
   const location = useLocation()
   const screenInfo = useScreenInstance()
   const { uid } = useUniqueId()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
 
   const store = useStore()
-  const { addScreenInstancePromise } = useStoreActions()
+  const {
+    addScreenInstancePromise,
+    setScreenInstances,
+    setTransacting,
+    setSkipNavigationGuard,
+  } = useStoreActions()
+  const guard = useNavigationGuard()
+  const locationKeyStackRef = useLocationKeyStack()
 
-  const searchParams = new URLSearchParams(location.search)
-  const { present, screenInstanceId } = getNavigatorParams(searchParams)
+  /**
+   * Location key of the history entry `count` entries back
+   * (`undefined` if unknown)
+   */
+  const getBackwardLocationKey = useCallback(
+    (count: number) => {
+      const keys = locationKeyStackRef?.current ?? []
+      return keys[keys.length - 1 - count]
+    },
+    [locationKeyStackRef]
+  )
 
   const push = useCallback(
     <T = object>(
       to: string,
-      options?: {
+      options?: INavigatorPresentOptions & {
         /**
-         * Bottom to top animation (iOS only)
+         * Name of transition (built-in or registered to `Navigator`)
          */
-        present?: boolean
+        transition?: string
       }
     ): Promise<T | null> =>
       new Promise((resolve) => {
-        const { pathname, searchParams } = new URL(to, /* dummy */ 'file://')
+        const result = guard({
+          to,
+          leavingScreenInstanceIds: [],
+        })
 
-        searchParams.set(NavigatorParamKeys.SCREEN_INSTANCE_ID, uid())
+        whenResolved(result, (result) => {
+          if (result === false) {
+            resolve(null)
+            return
+          }
 
-        if (options?.present) {
-          searchParams.set(NavigatorParamKeys.PRESENT, 'true')
-        }
+          const { pathname, searchParams } = new URL(
+            typeof result === 'string' ? result : to,
+            /* dummy */ 'file://'
+          )
 
-        addScreenInstancePromise({
-          screenInstanceId: screenInfo.screenInstanceId,
-          screenInstancePromise: {
-            resolve,
-            popped: false,
-          },
-        })
+          const nextLocation = makeNavigatorLocation(
+            { pathname, searchParams },
+            {
+              screenInstanceId: uid(),
+              ...resolvePresentOptions(options),
+              transition: options?.transition,
+            },
+            navigatorParamsConfig
+          )
+
+          if (screenInfo) {
+            addScreenInstancePromise({
+              screenInstanceId: screenInfo.screenInstanceId,
+              screenInstancePromise: {
+                resolve,
+                popped: false,
+              },
+            })
+          }
 
-        history.push(`${pathname}?${searchParams.toString()}`)
+          history.push(nextLocation)
+        })
       }),
-    [screenInfo, history]
+    [screenInfo, history, location, guard, navigatorParamsConfig]
   )
 
   const replace = useCallback(
@@ -60,29 +171,45 @@ export function useNavigator() {
         animate?: boolean
       }
     ) => {
-      const { pathname, searchParams } = new URL(to, /* dummy */ 'file://')
-
-      if (options?.animate) {
-        searchParams.set(NavigatorParamKeys.SCREEN_INSTANCE_ID, uid())
-      } else {
-        if (screenInstanceId) {
-          searchParams.set(
-            NavigatorParamKeys.SCREEN_INSTANCE_ID,
-            screenInstanceId
-          )
-        }
-        if (present) {
-          searchParams.set(NavigatorParamKeys.PRESENT, 'true')
+      const result = guard({
+        to,
+        leavingScreenInstanceIds: [],
+      })
+
+      whenResolved(result, (result) => {
+        if (result === false) {
+          return
         }
-      }
 
-      history.replace(`${pathname}?${searchParams.toString()}`)
+        const { pathname, searchParams } = new URL(
+          typeof result === 'string' ? result : to,
+          /* dummy */ 'file://'
+        )
+
+        history.replace(
+          makeNavigatorLocation(
+            { pathname, searchParams },
+            options?.animate
+              ? { screenInstanceId: uid() }
+              : getNavigatorParams(location, navigatorParamsConfig),
+            navigatorParamsConfig
+          )
+        )
+      })
     },
-    [history, screenInstanceId, present]
+    [history, location, guard, navigatorParamsConfig]
   )
 
   const pop = useCallback(
-    (depth = 1) => {
+    (
+      depth = 1,
+      options?: {
+        /**
+         * Skip `useBeforeLeave()` and `beforeEach` guards
+         */
+        force?: boolean
+      }
+    ) => {
       const { screenInstances, screenInstancePtr, screenInstancePromises } =
         store.getState()
 
@@ -124,15 +251,273 @@ export function useNavigator() {
         }
       }
 
-      Promise.resolve().then(() => {
-        history.go(-backwardCount)
-      })
+      /**
+       * Keep `await push()` pending when the screen stays
+       */
+      function cancel() {
+        dispose()
+
+        if (targetPromise) {
+          targetPromise.popped = false
+        }
+      }
+
+      const leavingScreenInstanceIds = screenInstances
+        .filter(
+          (_, idx) =>
+            idx > screenInstancePtr - depth && idx <= screenInstancePtr
+        )
+        .map((screenInstance) => screenInstance.id)
+
+      Promise.resolve()
+        .then(() =>
+          options?.force
+            ? true
+            : guard({
+                to: targetScreenInstance?.as ?? '',
+                leavingScreenInstanceIds,
+              })
+        )
+        .then((result) => {
+          if (result === true) {
+            setSkipNavigationGuard({ skipNavigationGuard: true })
+            return goHistory(
+              history,
+              -backwardCount,
+              getBackwardLocationKey(backwardCount)
+            ).then((moved) => {
+              if (!moved) {
+                setSkipNavigationGuard({ skipNavigationGuard: false })
+                cancel()
+              }
+            })
+          }
+
+          cancel()
+
+          if (typeof result === 'string') {
+            push(result)
+          }
+        })
 
       return {
         send,
       }
     },
-    [history]
+    [history, store, guard, push, getBackwardLocationKey]
+  )
+
+  const popTo = useCallback(
+    (
+      /**
+       * Path pattern (e.g. `/posts/:postId`) or screen instance id
+       */
+      target: string
+    ) => {
+      const { screens, screenInstances, screenInstancePtr } = store.getState()
+
+      const candidates = screenInstances
+        .map((screenInstance, idx) => ({ screenInstance, idx }))
+        .filter(({ idx }) => idx < screenInstancePtr)
+        .reverse()
+
+      const found =
+        candidates.find(({ screenInstance }) => screenInstance.id === target) ??
+        candidates.find(
+          ({ screenInstance }) =>
+            screens[screenInstance.screenId]?.path === target ||
+            !!matchPath(screenInstance.as, { exact: true, path: target })
+        )
+
+      if (!found) {
+        return NOOP_POP
+      }
+
+      return pop(screenInstancePtr - found.idx)
+    },
+    [pop]
+  )
+
+  const popToRoot = useCallback(() => {
+    const { screenInstancePtr } = store.getState()
+
+    if (screenInstancePtr <= 0) {
+      return NOOP_POP
+    }
+
+    return pop(screenInstancePtr)
+  }, [pop])
+
+  /**
+   * Keep the bottom `keep` screen instances, stack `entries` on them
+   * and play only one transition
+   */
+  const commitStack = useCallback(
+    (keep: number, entries: INavigatorStackEntry[]) =>
+      new Promise<void>((resolve, reject) => {
+        const {
+          screens,
+          screenInstances,
+          screenInstancePtr,
+          screenInstancePromises,
+        } = store.getState()
+
+        const parsedEntries = entries.map((entry) => {
+          const parsedEntry = parseStackEntry(entry)
+
+          return {
+            ...parsedEntry,
+            matchScreen: Object.values(screens).find(
+              (screen) =>
+                screen &&
+                matchPath(parsedEntry.pathname, {
+                  exact: true,
+                  path: screen.path,
+                })
+            ),
+          }
+        })
+
+        const unknownEntry = parsedEntries.find(
+          ({ matchScreen }) => !matchScreen
+        )
+        if (unknownEntry) {
+          reject(new Error(`No screen matching "${unknownEntry.pathname}"`))
+          return
+        }
+
+        const nextEntries = parsedEntries.map(
+          ({ pathname, searchParams, present, sheet, matchScreen }) => {
+            const screenInstanceId = uid()
+
+            const screenInstance: IScreenInstance = {
+              id: screenInstanceId,
+              screenId: matchScreen!.id,
+              nestedRouteCount: 0,
+              present,
+              sheet: sheet ?? undefined,
+              as: pathname,
+            }
+
+            return {
+              nextLocation: makeNavigatorLocation(
+                { pathname, searchParams },
+                { screenInstanceId, present, sheet },
+                navigatorParamsConfig
+              ),
+              screenInstance,
+            }
+          }
+        )
+
+        const keptScreenInstances = screenInstances.filter(
+          (_, idx) => idx < keep
+        )
+        const nextScreenInstances = [
+          ...keptScreenInstances,
+          ...nextEntries.map(({ screenInstance }) => screenInstance),
+        ]
+
+        const backwardCount =
+          screenInstances
+            .filter((_, idx) => idx >= keep && idx <= screenInstancePtr)
+            .map((screenInstance) => screenInstance.nestedRouteCount)
+            .reduce((acc, current) => acc + current + 1, 0) -
+          (keep === 0 ? 1 : 0)
+
+        const commit = () => {
+          nextEntries.forEach(({ nextLocation }, idx) => {
+            if (keep === 0 && idx === 0) {
+              history.replace(nextLocation)
+            } else {
+              history.push(nextLocation)
+            }
+          })
+
+          const parentScreenInstance = screenInstances[keep - 1]
+          const parentPromise =
+            parentScreenInstance &&
+            keep - 1 < screenInstancePtr &&
+            screenInstancePromises[parentScreenInstance.id]
+
+          if (parentPromise && !parentPromise.popped) {
+            parentPromise.resolve(null)
+          }
+
+          setScreenInstances({
+            screenInstances: [
+              ...nextScreenInstances,
+              ...screenInstances.filter(
+                (_, idx) => idx >= nextScreenInstances.length
+              ),
+            ],
+            ptr: nextScreenInstances.length - 1,
+          })
+          setTransacting({ transacting: false })
+          resolve()
+        }
+
+        setTransacting({ transacting: true })
+
+        if (backwardCount > 0) {
+          goHistory(
+            history,
+            -backwardCount,
+            getBackwardLocationKey(backwardCount)
+          ).then((moved) => {
+            if (moved) {
+              commit()
+            } else {
+              setTransacting({ transacting: false })
+              reject(new Error('History did not go back'))
+            }
+          })
+        } else {
+          commit()
+        }
+      }),
+    [history, store, uid, navigatorParamsConfig, getBackwardLocationKey]
+  )
+
+  /**
+   * Replace the whole stack (e.g. `reset(['/', '/receipt'])`)
+   */
+  const reset = useCallback(
+    (stack: INavigatorStackEntry[]) => {
+      if (stack.length === 0) {
+        return Promise.reject(
+          new Error('Stack should have at least one screen')
+        )
+      }
+
+      const { screenInstances, screenInstancePtr } = store.getState()
+
+      let keep = 0
+      while (keep < stack.length && keep <= screenInstancePtr) {
+        const { pathname, present, sheet } = parseStackEntry(stack[keep])
+
+        if (
+          screenInstances[keep].as !== pathname ||
+          screenInstances[keep].present !== present ||
+          !!screenInstances[keep].sheet !== !!sheet
+        ) {
+          break
+        }
+        keep += 1
+      }
+
+      return commitStack(keep, stack.slice(keep))
+    },
+    [store, commitStack]
+  )
+
+  /**
+   * Push several screens at once with one transition
+   */
+  const pushMany = useCallback(
+    (entries: INavigatorStackEntry[]) =>
+      commitStack(store.getState().screenInstancePtr + 1, entries),
+    [store, commitStack]
   )
 
   return useMemo(
@@ -140,7 +525,35 @@ export function useNavigator() {
       push,
       replace,
       pop,
+      popTo,
+      popToRoot,
+      reset,
+      pushMany,
     }),
-    [push, replace, pop]
+    [push, replace, pop, popTo, popToRoot, reset, pushMany]
   )
 }
+
+export type INavigator = ReturnType<typeof useNavigatorOfCurrentScope>
+
+export interface INavigatorScopeOptions {
+  /**
+   * Navigator to control when navigators are nested
+   * (`current` by default, `parent` or the outermost `root`)
+   */
+  scope?: 'current' | 'parent' | 'root'
+}
+
+export function useNavigator(options?: INavigatorScopeOptions): INavigator {
+  const navigator = useNavigatorOfCurrentScope()
+  const scopes = useNavigatorScopes()
+
+  switch (options?.scope) {
+    case 'root':
+      return scopes?.root ?? navigator
+    case 'parent':
+      return scopes?.parent ?? navigator
+    default:
+      return navigator
+  }
+}
@@ -0,0 +1,119 @@
+import { act } from '@testing-library/react'
+import React, { useEffect } from 'react'
+
+import { flush, renderNavigator } from './_test/renderNavigator'
+import { ISetQueryParams, useQueryParams } from './useQueryParams'
+
+const schema = { page: { type: 'number' as const, default: 1 } }
+
+function renderArticles() {
+  const probe: {
+    page: number | null
+    setQueryParams: ISetQueryParams<typeof schema> | null
+  } = { page: null, setQueryParams: null }
+
+  const Articles: React.FC = () => {
+    const [{ page }, setQueryParams] = useQueryParams({ schema })
+    probe.page = page
+    probe.setQueryParams = setQueryParams
+    return null
+  }
+
+  const rendered = renderNavigator({
+    screens: { '/articles': Articles },
+    initialEntries: ['/articles'],
+  })
+
+  return { ...rendered, probe }
+}
+
+describe('useQueryParams()', () => {
+  test('returns the params without navigator params without a schema', () => {
+    let queryParams = {}
+
+    const Articles: React.FC = () => {
+      queryParams = useQueryParams({ ignoreNestedRoutes: true })
+      return null
+    }
+
+    renderNavigator({
+      screens: { '/articles': Articles },
+      initialEntries: ['/articles?page=2'],
+    })
+
+    expect(queryParams).toEqual({ page: '2' })
+  })
+
+  test('replaces the params of the screen instance by default', () => {
+    const { probe, getState, getStack, history } = renderArticles()
+    const [screenInstance] = getState().screenInstances
+
+    act(() => {
+      probe.setQueryParams!({ page: 2 })
+    })
+
+    expect(probe.page).toBe(2)
+    expect(getStack()).toEqual(['/articles'])
+    expect(getState().screenInstances[0].id).toBe(screenInstance.id)
+    expect(history.length).toBe(1)
+  })
+
+  test('pushes an entry of the same screen instance with method push', async () => {
+    const mount = jest.fn()
+    let page: number | null = null
+    let setQueryParams: ISetQueryParams<typeof schema> | null = null
+
+    const Articles: React.FC = () => {
+      const [queryParams, set] = useQueryParams({ schema })
+      page = queryParams.page
+      setQueryParams = set
+
+      useEffect(mount, [])
+      return null
+    }
+
+    const { navigator, getState, getStack, history } = renderNavigator({
+      screens: { '/': () => null, '/articles': Articles },
+    })
+
+    act(() => {
+      navigator().push('/articles', { presentation: 'sheet' })
+    })
+    const { screenInstances } = getState()
+
+    act(() => {
+      setQueryParams!({ page: 2 }, { method: 'push' })
+    })
+    act(() => {
+      setQueryParams!({ page: 3 }, { method: 'push' })
+    })
+
+    expect(page).toBe(3)
+    expect(mount).toHaveBeenCalledTimes(1)
+    expect(getStack()).toEqual(['/', '/articles'])
+    expect(getState().screenInstances[1]).toMatchObject({
+      id: screenInstances[1].id,
+      sheet: screenInstances[1].sheet,
+      nestedRouteCount: 2,
+    })
+
+    const searchParams = new URLSearchParams(history.location.search)
+    expect(searchParams.get('_si')).toBe(screenInstances[1].id)
+    expect(searchParams.get('_present')).toBe('sheet')
+
+    act(() => {
+      history.goBack()
+    })
+
+    expect(page).toBe(2)
+    expect(getStack()).toEqual(['/', '/articles'])
+
+    act(() => {
+      navigator().pop()
+    })
+    await flush()
+
+    expect(getStack()).toEqual(['/'])
+    expect(history.location.pathname).toBe('/')
+  })
+})
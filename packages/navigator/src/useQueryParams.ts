@@ -1,32 +1,79 @@
-import { useMemo } from 'react'
-import { useLocation } from 'react-router-dom'
+import { useCallback, useMemo } from 'react'
 
-import { useScreenInstance } from './contexts'
+import {
+  useHistory,
+  useLocation,
+  useNavigatorParamsConfig,
+  useScreenInstance,
+} from './contexts'
+import {
+  getNavigatorParams,
+  makeNavigatorLocation,
+  omitNavigatorParams,
+  parseQueryParams,
+  writeQueryParams,
+} from './helpers'
+import { IQueryParamsOf, IQueryParamsPatch, IQueryParamsSchema } from './types'
 
-export function useQueryParams<
-  T extends { [key in keyof T]: string } = {}
->(options?: { ignoreNestedRoutes?: boolean }): Partial<T> {
+export interface IQueryParamsOptions {
+  /**
+   * Keep the params while nested routes of the screen change
+   */
+  ignoreNestedRoutes?: boolean
+}
+
+export type ISetQueryParams<S extends IQueryParamsSchema> = (
+  patch: IQueryParamsPatch<S>,
+  options?: {
+    /**
+     * Replace the history entry (default)
+     * or push a new one of the same screen instance
+     * (going back restores the current params)
+     */
+    method?: 'replace' | 'push'
+  }
+) => void
+
+export function useQueryParams<S extends IQueryParamsSchema>(
+  options: IQueryParamsOptions & {
+    /**
+     * Coerce the values and return a setter along with them
+     */
+    schema: S
+  }
+): [IQueryParamsOf<S>, ISetQueryParams<S>]
+export function useQueryParams<T extends { [key in keyof T]: string } = {}>(
+  options?: IQueryParamsOptions
+): Partial<T>
+export function useQueryParams(
+  options?: IQueryParamsOptions & { schema?: IQueryParamsSchema }
+) {
+  const schema = options?.schema ?? null
   const ignoreNestedRoutes = !!options?.ignoreNestedRoutes
 
+  const history = useHistory()
   const location = useLocation()
-  const { as } = useScreenInstance()
+  const { as, isTop } = useScreenInstance()
+  const navigatorParamsConfig = useNavigatorParamsConfig()
 
-  const parse = useMemo(() => {
-    let prevParams: Partial<T> = {}
+  /**
+   * Querystring of the location matching the screen (`as`),
+   * kept while other locations are shown
+   */
+  const scope = useMemo(() => {
+    let prevSearch = ''
 
     return ({ pathname, search }: { pathname: string; search: string }) => {
       if (pathname === as) {
-        prevParams = Object.fromEntries(
-          new URLSearchParams(search).entries()
-        ) as Partial<T>
+        prevSearch = search
       }
-      return prevParams
+      return prevSearch
     }
   }, [as])
 
-  const queryParams = useMemo(
+  const search = useMemo(
     () =>
-      parse({
+      scope({
         pathname: location.pathname,
         search: location.search,
       }),
@@ -36,5 +83,54 @@ export function useQueryParams<
     ]
   )
 
-  return queryParams
+  const schemaKey = schema ? JSON.stringify(schema) : null
+
+  const queryParams = useMemo(() => {
+    const searchParams = new URLSearchParams(search)
+
+    return schema
+      ? parseQueryParams(schema, searchParams)
+      : omitNavigatorParams(
+          Object.fromEntries(searchParams.entries()),
+          navigatorParamsConfig
+        )
+  }, [search, schemaKey, navigatorParamsConfig])
+
+  /**
+   * Ignored while the screen is not on top
+   */
+  const setQueryParams = useCallback(
+    (
+      patch: { [key: string]: unknown },
+      setOptions?: { method?: 'replace' | 'push' }
+    ) => {
+      const { location } = history
+
+      if (!isTop || location.pathname !== as) {
+        return
+      }
+
+      const searchParams = new URLSearchParams(location.search)
+      writeQueryParams(searchParams, patch)
+
+      /**
+       * Navigator params are kept, so that a pushed entry belongs
+       * to the same screen instance (handled as a nested route)
+       */
+      const nextLocation = makeNavigatorLocation(
+        { pathname: as, searchParams },
+        getNavigatorParams(location, navigatorParamsConfig),
+        navigatorParamsConfig
+      )
+
+      if (setOptions?.method !== 'push') {
+        history.replace(nextLocation)
+      } else if (nextLocation.search !== location.search) {
+        history.push(nextLocation)
+      }
+    },
+    [history, as, isTop, navigatorParamsConfig]
+  )
+
+  return schema ? [queryParams, setQueryParams] : queryParams
 }
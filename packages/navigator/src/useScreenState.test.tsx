@@ -0,0 +1,47 @@
+import { act } from '@testing-library/react'
+import React from 'react'
+
+import { renderNavigator } from './_test/renderNavigator'
+import { useScreenState } from './useScreenState'
+
+let setTab: (tab: string) => void = () => {}
+
+const Feed: React.FC = () => {
+  const [tab, _setTab] = useScreenState('tab', 'latest')
+  setTab = _setTab
+
+  return <div>{tab}</div>
+}
+
+const screens = {
+  '/': Feed,
+  '/posts': () => null,
+}
+
+describe('useScreenState()', () => {
+  test('keeps the state out of the store while the screen is on top', () => {
+    const { getByText, getState } = renderNavigator({ screens })
+    const [{ id }] = getState().screenInstances
+
+    act(() => {
+      setTab('popular')
+    })
+
+    expect(getByText('popular')).toBeTruthy()
+    expect(getState().screenInstanceSnapshots[id]?.state.tab).toBeUndefined()
+  })
+
+  test('saves the state when the screen leaves the top', () => {
+    const { navigator, getState } = renderNavigator({ screens })
+    const [{ id }] = getState().screenInstances
+
+    act(() => {
+      setTab('popular')
+    })
+    act(() => {
+      navigator().push('/posts')
+    })
+
+    expect(getState().screenInstanceSnapshots[id]?.state.tab).toBe('popular')
+  })
+})
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { useScreenInstance } from './contexts'
+import { useStore, useStoreActions } from './store'
+
+/**
+ * Same as `useState`, but the state is kept in the screen instance snapshot
+ * and restored when the screen is mounted again (e.g. by `maxMountedScreens`).
+ * Saved when the screen leaves the top, the page is hidden or the screen is unmounted
+ */
+export function useScreenState<T>(key: string, initialState: T | (() => T)) {
+  const { screenInstanceId, isTop } = useScreenInstance()
+  const store = useStore()
+  const { mapScreenInstanceSnapshot } = useStoreActions()
+
+  const [state, setState] = useState<T>(() => {
+    const snapshot = store.getState().screenInstanceSnapshots[screenInstanceId]
+
+    if (snapshot && key in snapshot.state) {
+      return snapshot.state[key] as T
+    }
+
+    return initialState instanceof Function ? initialState() : initialState
+  })
+
+  const stateRef = useRef(state)
+  stateRef.current = state
+
+  const save = useCallback(() => {
+    mapScreenInstanceSnapshot({
+      screenInstanceId,
+      mapper: (snapshot) => ({
+        ...snapshot,
+        state: {
+          ...snapshot.state,
+          [key]: stateRef.current,
+        },
+      }),
+    })
+  }, [screenInstanceId, key, mapScreenInstanceSnapshot])
+
+  useEffect(() => {
+    window.addEventListener('pagehide', save)
+
+    return () => {
+      window.removeEventListener('pagehide', save)
+      save()
+    }
+  }, [save])
+
+  useEffect(() => {
+    if (!isTop) {
+      save()
+    }
+  }, [isTop])
+
+  return [state, setState] as const
+}
@@ -0,0 +1,22 @@
+import { RefObject } from 'react'
+
+import { useScreenInstance } from './contexts'
+import { useScrollSnapshot } from './hooks'
+
+/**
+ * Restore the scroll position of an inner scroll container
+ * (use `key` to distinguish multiple containers in a screen)
+ */
+export function useScrollRestoration(
+  ref: RefObject<HTMLElement>,
+  key: string = 'default'
+) {
+  const { screenInstanceId, isTop } = useScreenInstance()
+
+  useScrollSnapshot({
+    ref,
+    screenInstanceId,
+    key,
+    isTop,
+  })
+}
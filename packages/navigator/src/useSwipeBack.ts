@@ -0,0 +1,42 @@
+import { useEffect, useMemo } from 'react'
+
+import { useScreenInstance } from './contexts'
+import { useStoreActions, useStoreSelector } from './store'
+
+/**
+ * Toggle the edge swipe back gesture of the current screen at runtime
+ * (e.g. while a map or carousel is being dragged)
+ */
+export function useSwipeBack() {
+  const { screenInstanceId } = useScreenInstance()
+  const { setSwipeBackEnabled } = useStoreActions()
+
+  const enabled = useStoreSelector(
+    (state) => state.swipeBackEnabled[screenInstanceId] ?? true
+  )
+
+  useEffect(() => {
+    return () => {
+      setSwipeBackEnabled({
+        screenInstanceId,
+        enabled: undefined,
+      })
+    }
+  }, [screenInstanceId, setSwipeBackEnabled])
+
+  return useMemo(
+    () => ({
+      /**
+       * `false` while disabled by `disable()`
+       */
+      enabled,
+      enable() {
+        setSwipeBackEnabled({ screenInstanceId, enabled: true })
+      },
+      disable() {
+        setSwipeBackEnabled({ screenInstanceId, enabled: false })
+      },
+    }),
+    [enabled, screenInstanceId, setSwipeBackEnabled]
+  )
+}